@@ -0,0 +1,222 @@
+/**
+ * Parse Cache
+ *
+ * Parsed datasets stored on disk as JSON, keyed by a hash of the GRIB
+ * file's content, the parse options and the parser version, so the same
+ * file (e.g. a Saildocs reply opened again) is only parsed once. The
+ * binary format of an entry (see binaryDataset.ts) is stored next to it
+ * for each precision asked for, so it is encoded once too.
+ *
+ * Entries expire after CACHE_TTL_MS. When the cache grows past
+ * MAX_CACHE_BYTES, the least recently used entries are evicted with
+ * their binary formats: the JSON file's access time records its last
+ * use, its modification time when it was written.
+ */
+
+import { createHash } from "crypto";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from "fs/promises";
+import { join } from "path";
+import {
+  PARSER_VERSION,
+  parseGribBuffer,
+  type ParseOptions,
+  type ParseProgress,
+} from "./parser";
+import { binaryPayload, jsonReplacer } from "./responses";
+import type { BinaryPrecision } from "../lib/binaryDataset";
+
+const CACHE_DIR = join(process.cwd(), "data", "cache");
+
+// Total size of cached datasets on disk
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+// Forecasts go stale; a week covers reopening the same download
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Cache key for a file parsed with some options
+ */
+export function parseCacheKey(
+  buffer: ArrayBuffer,
+  options: ParseOptions
+): string {
+  return createHash("sha256")
+    .update(`${PARSER_VERSION}\0${JSON.stringify(options)}\0`)
+    .update(new Uint8Array(buffer))
+    .digest("hex");
+}
+
+function entryPath(key: string): string {
+  return join(CACHE_DIR, `${key}.json`);
+}
+
+function binaryPath(key: string, precision: BinaryPrecision): string {
+  return join(CACHE_DIR, `${key}.${precision}.bin`);
+}
+
+/**
+ * Whether a key has a live entry, marking it as recently used. Expired
+ * entries are removed with their binary formats.
+ */
+async function useEntry(key: string): Promise<boolean> {
+  const path = entryPath(key);
+  try {
+    const info = await stat(path);
+    if (Date.now() - info.mtimeMs > CACHE_TTL_MS) {
+      await removeEntry(key);
+      return false;
+    }
+    await utimes(path, new Date(), info.mtime);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Cached dataset JSON for a key, or null on a miss. Expired entries are
+ * removed; hits are marked as recently used.
+ */
+export async function readCachedDataset(key: string): Promise<string | null> {
+  if (!(await useEntry(key))) return null;
+  return readFile(entryPath(key), "utf8").catch(() => null);
+}
+
+/**
+ * Cached dataset in the binary format (gzip-compressed, see
+ * binaryPayload) for a key, or null on a miss. The first request for a
+ * precision encodes it from the JSON entry and stores it.
+ */
+export async function readCachedBinaryDataset(
+  key: string,
+  precision: BinaryPrecision
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!(await useEntry(key))) return null;
+  const path = binaryPath(key, precision);
+  try {
+    return new Uint8Array(await readFile(path));
+  } catch {
+    // Not encoded at this precision yet
+  }
+
+  const json = await readFile(entryPath(key), "utf8").catch(() => null);
+  if (json === null) return null;
+  const payload = await binaryPayload(JSON.parse(json), precision);
+  try {
+    await writeEntryFile(path, payload);
+  } catch (error) {
+    console.warn("Could not cache binary dataset:", error);
+  }
+  return payload;
+}
+
+/**
+ * Store dataset JSON under a key, then evict expired and least recently
+ * used entries to keep the cache under its size cap
+ */
+export async function writeCachedDataset(
+  key: string,
+  json: string
+): Promise<void> {
+  await mkdir(CACHE_DIR, { recursive: true });
+  await writeEntryFile(entryPath(key), json);
+  await evictEntries();
+}
+
+/**
+ * Write a cache file under a temporary name first, so readers never see
+ * a partial one
+ */
+async function writeEntryFile(
+  path: string,
+  data: string | Uint8Array
+): Promise<void> {
+  const partial = `${path}.${process.pid}.partial`;
+  await writeFile(partial, data);
+  await rename(partial, path);
+}
+
+/**
+ * Remove a key's entry and its binary formats
+ */
+async function removeEntry(key: string): Promise<void> {
+  await Promise.all(
+    [entryPath(key), binaryPath(key, "int16"), binaryPath(key, "float32")].map(
+      (path) => unlink(path).catch(() => {})
+    )
+  );
+}
+
+/**
+ * Parse a file and cache the dataset under `key`, returning its JSON
+ */
+export async function parseAndCache(
+  key: string,
+  buffer: ArrayBuffer,
+  filename: string,
+  options: ParseOptions,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<string> {
+  const dataset = await parseGribBuffer(buffer, filename, options, onProgress);
+  const datasetJson = JSON.stringify(dataset, jsonReplacer);
+
+  // A failed cache write only costs a re-parse next time
+  try {
+    await writeCachedDataset(key, datasetJson);
+  } catch (error) {
+    console.warn("Could not cache parsed dataset:", error);
+  }
+  return datasetJson;
+}
+
+async function evictEntries(): Promise<void> {
+  const names = await readdir(CACHE_DIR);
+  // Bytes per key, JSON entry and binary formats together
+  const sizes = new Map<string, number>();
+  await Promise.all(
+    names
+      .filter((name) => !name.endsWith(".partial"))
+      .map(async (name) => {
+        // Another request may have evicted it meanwhile
+        const info = await stat(join(CACHE_DIR, name)).catch(() => null);
+        const key = name.slice(0, name.indexOf("."));
+        if (info) sizes.set(key, (sizes.get(key) ?? 0) + info.size);
+      })
+  );
+  const entries = await Promise.all(
+    [...sizes].map(async ([key, size]) => {
+      const info = await stat(entryPath(key)).catch(() => null);
+      return { key, size, info };
+    })
+  );
+
+  const now = Date.now();
+  let total = 0;
+  const live = [];
+  for (const { key, size, info } of entries) {
+    // Binary formats whose JSON entry is gone are removed with it
+    if (!info || now - info.mtimeMs > CACHE_TTL_MS) {
+      await removeEntry(key);
+    } else {
+      live.push({ key, size, used: info.atimeMs });
+      total += size;
+    }
+  }
+
+  // Most recently used first; drop from the end until under the cap
+  live.sort((a, b) => b.used - a.used);
+  while (total > MAX_CACHE_BYTES && live.length > 0) {
+    const entry = live.pop()!;
+    await removeEntry(entry.key);
+    total -= entry.size;
+  }
+}
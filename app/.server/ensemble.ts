@@ -0,0 +1,177 @@
+/**
+ * Ensemble Products
+ *
+ * Fields derived from the members of an ensemble wind forecast (GEFS,
+ * ECMWF ENS): the mean wind, the spread of wind speed between members,
+ * and the chance of the wind exceeding a threshold, which together show
+ * how far the forecast can be trusted.
+ */
+
+import type {
+  DatasetField,
+  ScalarField,
+  VectorField,
+  VelocityComponent,
+  VelocityData,
+  VelocityHeader,
+} from "./parser";
+
+// Thresholds for probability-of-exceedance fields, in knots
+export const EXCEEDANCE_THRESHOLDS_KT = [25, 34];
+
+const METRES_PER_SECOND_PER_KNOT = 1852 / 3600;
+
+/**
+ * Value at a point, NaN where missing (null once sent as JSON)
+ */
+function valueAt(component: VelocityComponent, index: number): number {
+  return component.data[index] ?? NaN;
+}
+
+/**
+ * Header of a derived wind speed field, from a member's U header
+ */
+function derivedHeader(
+  header: VelocityHeader,
+  name: string,
+  unit: string
+): VelocityHeader {
+  return {
+    ...header,
+    parameterCategory: 2,
+    parameterNumber: 1,
+    parameterNumberName: name,
+    parameterUnit: unit,
+  };
+}
+
+/**
+ * Members with data at one time step
+ */
+function membersAt(field: VectorField, index: number): VelocityData[] {
+  return (field.members ?? []).flatMap((member) => {
+    const step = member.steps[index];
+    return step ? [step] : [];
+  });
+}
+
+/**
+ * Mean wind, spread of wind speed and probability-of-exceedance fields
+ * for an ensemble wind field. A point missing in any member is missing
+ * in the derived fields.
+ */
+export function ensembleWindFields(field: VectorField): DatasetField[] {
+  if (field.parameter !== "wind" || !field.members) return [];
+
+  const base = {
+    typeOfLevel: field.typeOfLevel,
+    level: field.level,
+  };
+  const mean: VectorField = {
+    ...base,
+    id: `windMean:${field.typeOfLevel}:${field.level}`,
+    parameter: "windMean",
+    kind: "vector",
+    name: "Wind (ensemble mean)",
+    units: field.units,
+    steps: [],
+  };
+  const spread: ScalarField = {
+    ...base,
+    id: `windSpread:${field.typeOfLevel}:${field.level}`,
+    parameter: "windSpread",
+    kind: "scalar",
+    name: "Wind speed spread",
+    units: "m.s-1",
+    steps: [],
+  };
+  const probabilities: ScalarField[] = EXCEEDANCE_THRESHOLDS_KT.map(
+    (knots) => ({
+      ...base,
+      id: `windProb${knots}:${field.typeOfLevel}:${field.level}`,
+      parameter: `windProb${knots}`,
+      kind: "scalar",
+      name: `P(wind > ${knots} kt)`,
+      units: "%",
+      steps: [],
+    })
+  );
+
+  field.steps.forEach((_, index) => {
+    const members = membersAt(field, index);
+    // Statistics need at least two members
+    if (members.length < 2) {
+      mean.steps.push(null);
+      spread.steps.push(null);
+      for (const probability of probabilities) probability.steps.push(null);
+      return;
+    }
+
+    const [u0, v0] = members[0];
+    const points = u0.data.length;
+    const meanU = new Float32Array(points);
+    const meanV = new Float32Array(points);
+    const speedSpread = new Float32Array(points);
+    const exceedance = EXCEEDANCE_THRESHOLDS_KT.map(
+      () => new Float32Array(points)
+    );
+    const limits = EXCEEDANCE_THRESHOLDS_KT.map(
+      (knots) => knots * METRES_PER_SECOND_PER_KNOT
+    );
+
+    for (let i = 0; i < points; i++) {
+      let sumU = 0;
+      let sumV = 0;
+      let sumSpeed = 0;
+      let sumSquares = 0;
+      const counts = limits.map(() => 0);
+
+      for (const [u, v] of members) {
+        const ui = valueAt(u, i);
+        const vi = valueAt(v, i);
+        const speed = Math.hypot(ui, vi);
+        sumU += ui;
+        sumV += vi;
+        sumSpeed += speed;
+        sumSquares += speed * speed;
+        limits.forEach((limit, k) => {
+          if (speed > limit) counts[k]++;
+        });
+      }
+
+      const n = members.length;
+      const meanSpeed = sumSpeed / n;
+      meanU[i] = sumU / n;
+      meanV[i] = sumV / n;
+      speedSpread[i] = Math.sqrt(
+        Math.max(0, sumSquares / n - meanSpeed * meanSpeed)
+      );
+      // NaN from any member carries through the sums
+      const missing = Number.isNaN(sumSpeed);
+      counts.forEach((count, k) => {
+        exceedance[k][i] = missing ? NaN : (100 * count) / n;
+      });
+    }
+
+    mean.steps.push([
+      { header: u0.header, data: meanU },
+      { header: v0.header, data: meanV },
+    ]);
+    spread.steps.push({
+      header: derivedHeader(u0.header, "Wind_speed_spread", "m.s-1"),
+      data: speedSpread,
+    });
+    probabilities.forEach((probability, k) => {
+      probability.steps.push({
+        header: derivedHeader(
+          u0.header,
+          `Probability_of_wind_speed_above_${EXCEEDANCE_THRESHOLDS_KT[k]}_kt`,
+          "%"
+        ),
+        data: exceedance[k],
+      });
+    });
+  });
+
+  return [mean, spread, ...probabilities];
+}
@@ -0,0 +1,308 @@
+/**
+ * Gaussian Grids
+ *
+ * ECMWF fields often come on Gaussian grids (GRIB2 template 3.40, GRIB1
+ * type 4): rows sit on the unevenly spaced Gaussian latitudes, and on
+ * reduced and octahedral grids each row has its own number of points.
+ * This module interpolates them onto a regular lat/lon grid at a chosen
+ * resolution, which is what leaflet-velocity needs.
+ */
+
+import type { LatLonGrid } from "./projections";
+
+/**
+ * The parts of a message's grid definition needed to resample it
+ */
+export interface GaussianGridDefinition {
+  gaussian: {
+    // Number of parallels between a pole and the equator
+    N: number;
+    // Target grid spacing in degrees
+    resolution: number;
+  };
+  // Points per row on regular Gaussian grids; unused when reduced
+  Ni: number;
+  Nj: number;
+  latitudeOfFirstGridPoint: number;
+  longitudeOfFirstGridPoint: number;
+  latitudeOfLastGridPoint: number;
+  longitudeOfLastGridPoint: number;
+  iDirectionIncrement: number;
+  scanningMode: number;
+}
+
+/**
+ * One row of points on a single latitude, as stored in the message:
+ * `count` values from `offset`, at longitudes lon + k * dlon (dlon is
+ * negative when the row scans westwards)
+ */
+export interface GridRow {
+  lat: number;
+  lon: number;
+  dlon: number;
+  count: number;
+  offset: number;
+}
+
+// Resolutions offered by default, in degrees
+const NICE_RESOLUTIONS = [0.25, 0.5, 1, 1.5, 2, 2.5];
+
+// Keep resampled fields to a size the browser can animate
+const MAX_TARGET_POINTS = 2_000_000;
+
+const gaussianLatitudeCache = new Map<number, Float64Array>();
+
+/**
+ * The 2N Gaussian latitudes, north to south: the roots of the Legendre
+ * polynomial of degree 2N, found by Newton iteration
+ */
+export function gaussianLatitudes(N: number): Float64Array {
+  const cached = gaussianLatitudeCache.get(N);
+  if (cached) return cached;
+
+  const degree = 2 * N;
+  const latitudes = new Float64Array(degree);
+  for (let k = 0; k < N; k++) {
+    let x = Math.cos((Math.PI * (k + 0.75)) / (degree + 0.5));
+    for (let iteration = 0; iteration < 100; iteration++) {
+      // Legendre recurrence for P(x) and its derivative
+      let p0 = 1;
+      let p1 = x;
+      for (let n = 2; n <= degree; n++) {
+        const p2 = ((2 * n - 1) * x * p1 - (n - 1) * p0) / n;
+        p0 = p1;
+        p1 = p2;
+      }
+      const derivative = (degree * (p0 - x * p1)) / (1 - x * x);
+      const step = p1 / derivative;
+      x -= step;
+      if (Math.abs(step) < 1e-15) break;
+    }
+    const lat = (Math.asin(x) * 180) / Math.PI;
+    latitudes[k] = lat;
+    latitudes[degree - 1 - k] = -lat;
+  }
+
+  gaussianLatitudeCache.set(N, latitudes);
+  return latitudes;
+}
+
+/**
+ * Default target resolution: about the native spacing (90/N degrees),
+ * but no finer than 0.25°
+ */
+export function defaultGaussianResolution(N: number): number {
+  const native = 90 / N;
+  return (
+    NICE_RESOLUTIONS.find((resolution) => resolution >= native * 0.9) ??
+    NICE_RESOLUTIONS[NICE_RESOLUTIONS.length - 1]
+  );
+}
+
+/**
+ * Degrees east of `west`, in the range 0 to 360
+ */
+function unwrap(lon: number, west: number): number {
+  return (((lon - west) % 360) + 360) % 360;
+}
+
+/**
+ * Whether a grid's longitudes go all the way round. Gaussian rows stop
+ * one native spacing (about 90/N degrees) short of 360.
+ */
+function isGlobal(definition: GaussianGridDefinition): boolean {
+  const [west, east] = longitudeEdges(definition);
+  return unwrap(east, west) >= 360 - 135 / definition.gaussian.N;
+}
+
+function longitudeEdges(definition: GaussianGridDefinition): [number, number] {
+  const first = definition.longitudeOfFirstGridPoint;
+  const last = definition.longitudeOfLastGridPoint;
+  return definition.scanningMode & 0x80 ? [last, first] : [first, last];
+}
+
+/**
+ * Regular lat/lon grid a Gaussian grid is resampled onto: points at
+ * multiples of the resolution inside the source grid, all the way round
+ * for global grids
+ */
+export function gaussianTargetGrid(
+  definition: GaussianGridDefinition
+): LatLonGrid {
+  const north = Math.max(
+    definition.latitudeOfFirstGridPoint,
+    definition.latitudeOfLastGridPoint
+  );
+  const south = Math.min(
+    definition.latitudeOfFirstGridPoint,
+    definition.latitudeOfLastGridPoint
+  );
+  const [west, east] = longitudeEdges(definition);
+  const global = isGlobal(definition);
+
+  // First target column and row at multiples of the resolution
+  const place = (resolution: number) => {
+    const la1 = Math.floor(north / resolution + 1e-9) * resolution;
+    const lo1 = global
+      ? west
+      : Math.ceil(west / resolution - 1e-9) * resolution;
+    const ny = Math.floor((la1 - south) / resolution + 1e-9) + 1;
+    const nx = global
+      ? Math.round(360 / resolution)
+      : Math.floor((west + unwrap(east, west) - lo1) / resolution + 1e-9) + 1;
+    return { nx, ny, la1, lo1 };
+  };
+
+  let resolution = definition.gaussian.resolution;
+  let { nx, ny, la1, lo1 } = place(resolution);
+  if (nx * ny > MAX_TARGET_POINTS) {
+    resolution *= Math.sqrt((nx * ny) / MAX_TARGET_POINTS);
+    ({ nx, ny, la1, lo1 } = place(resolution));
+  }
+
+  return {
+    nx,
+    ny,
+    la1,
+    lo1: ((((lo1 + 180) % 360) + 360) % 360) - 180,
+    dx: resolution,
+    dy: resolution,
+  };
+}
+
+/**
+ * Rows of a Gaussian grid in storage order, from its definition and, for
+ * reduced grids, the number of points on each row (pl). On sub-area
+ * grids pl counts the points of the whole latitude circle.
+ */
+export function gaussianRows(
+  definition: GaussianGridDefinition,
+  pl: number[] | null
+): GridRow[] {
+  const { N } = definition.gaussian;
+  const { Nj, scanningMode } = definition;
+  const latitudes = gaussianLatitudes(N);
+  const north = Math.max(
+    definition.latitudeOfFirstGridPoint,
+    definition.latitudeOfLastGridPoint
+  );
+
+  // Index of the grid's northernmost row among the 2N Gaussian latitudes
+  let first = 0;
+  for (let k = 1; k < latitudes.length; k++) {
+    if (Math.abs(latitudes[k] - north) < Math.abs(latitudes[first] - north)) {
+      first = k;
+    }
+  }
+
+  const [west, east] = longitudeEdges(definition);
+  const global = isGlobal(definition);
+  const westward = (scanningMode & 0x80) !== 0;
+  const northward = (scanningMode & 0x40) !== 0;
+
+  const rows: GridRow[] = [];
+  let offset = 0;
+  for (let r = 0; r < Nj; r++) {
+    const lat = latitudes[first + (northward ? Nj - 1 - r : r)];
+    let spacing: number;
+    let rowWest: number;
+    let count: number;
+
+    if (pl) {
+      spacing = 360 / pl[r];
+      if (global) {
+        rowWest = west;
+        count = pl[r];
+      } else {
+        // Points of the full circle that fall inside the sub-area
+        rowWest = Math.ceil(west / spacing - 1e-9) * spacing;
+        count =
+          Math.floor((unwrap(east, west) - (rowWest - west)) / spacing + 1e-9) +
+          1;
+      }
+    } else {
+      spacing = definition.iDirectionIncrement || 360 / definition.Ni;
+      rowWest = west;
+      count = definition.Ni;
+    }
+
+    rows.push({
+      lat,
+      lon: westward ? rowWest + (count - 1) * spacing : rowWest,
+      dlon: westward ? -spacing : spacing,
+      count,
+      offset,
+    });
+    offset += count;
+  }
+
+  return rows;
+}
+
+/**
+ * Linearly interpolate along a row at a longitude; NaN outside the row
+ * unless it goes all the way round
+ */
+function rowValue(values: Float32Array, row: GridRow, lon: number): number {
+  const spacing = Math.abs(row.dlon);
+  const position =
+    (row.dlon >= 0 ? unwrap(lon, row.lon) : unwrap(row.lon, lon)) / spacing;
+  const wraps = row.count * spacing >= 360 - spacing / 2;
+
+  let k0 = Math.floor(position);
+  const t = position - k0;
+  let k1 = k0 + 1;
+  if (wraps) {
+    k0 %= row.count;
+    k1 %= row.count;
+  } else if (k0 >= row.count - 1) {
+    // Exactly on the last point, or past the end of the row
+    if (position - (row.count - 1) > 1e-6) return NaN;
+    return values[row.offset + row.count - 1];
+  }
+  return values[row.offset + k0] * (1 - t) + values[row.offset + k1] * t;
+}
+
+/**
+ * Bilinearly resample row-stored values onto a regular lat/lon grid:
+ * along the two rows either side of each target latitude, then between
+ * them. Points outside the rows become NaN.
+ */
+export function resampleRows(
+  values: Float32Array,
+  rows: GridRow[],
+  target: LatLonGrid
+): Float32Array {
+  const total = rows.reduce((sum, row) => sum + row.count, 0);
+  if (total !== values.length) {
+    throw new Error(
+      `Gaussian grid rows hold ${total} points but the message has ${values.length}`
+    );
+  }
+
+  const sorted = [...rows].sort((a, b) => b.lat - a.lat);
+  const { nx, ny, la1, lo1, dx, dy } = target;
+  const resampled = new Float32Array(nx * ny).fill(NaN);
+
+  let r = 0;
+  for (let j = 0; j < ny; j++) {
+    const lat = la1 - j * dy;
+    while (r < sorted.length - 2 && sorted[r + 1].lat >= lat) r++;
+    const northRow = sorted[r];
+    const southRow = sorted[Math.min(r + 1, sorted.length - 1)];
+    if (lat > northRow.lat + 1e-6 || lat < southRow.lat - 1e-6) continue;
+
+    const t =
+      northRow === southRow
+        ? 0
+        : (northRow.lat - lat) / (northRow.lat - southRow.lat);
+    for (let i = 0; i < nx; i++) {
+      const lon = lo1 + i * dx;
+      const a = rowValue(values, northRow, lon);
+      const b = t > 0 ? rowValue(values, southRow, lon) : 0;
+      resampled[j * nx + i] = a * (1 - t) + b * t;
+    }
+  }
+
+  return resampled;
+}
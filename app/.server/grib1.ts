@@ -0,0 +1,596 @@
+/**
+ * GRIB1 Decoder
+ *
+ * Pure TypeScript reader for GRIB edition 1 files, as still produced by
+ * Saildocs and older onboard tools.
+ *
+ * Reads the indicator (0), product definition (1), grid description (2),
+ * bitmap (3) and binary data (4) sections, and unpacks grid point data
+ * with simple packing.
+ *
+ * Reference: WMO Manual on Codes, FM 92 GRIB edition 1
+ */
+
+import type { GridProjection } from "./projections";
+import { GRIB1_LARGE_MESSAGE, statedLength } from "../lib/gribCheck";
+
+export interface Grib1Product {
+  tableVersion: number;
+  center: number;
+  subCenter: number;
+  generatingProcessIdentifier: number;
+  gridIdentifier: number;
+  indicatorOfParameter: number;
+  indicatorOfTypeOfLevel: number;
+  // Octets 11-12 as a single value (height, pressure) or two layer bounds
+  level: number;
+  topLevel: number;
+  bottomLevel: number;
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  unitOfTimeRange: number;
+  P1: number;
+  P2: number;
+  timeRangeIndicator: number;
+  decimalScaleFactor: number;
+  // Ensemble member from the centre's local extension, or null
+  perturbationNumber: number | null;
+}
+
+export interface Grib1Grid {
+  dataRepresentationType: number;
+  numberOfPoints: number;
+  Ni: number;
+  Nj: number;
+  latitudeOfFirstGridPoint: number;
+  longitudeOfFirstGridPoint: number;
+  latitudeOfLastGridPoint: number;
+  longitudeOfLastGridPoint: number;
+  iDirectionIncrement: number;
+  jDirectionIncrement: number;
+  resolutionAndComponentFlags: number;
+  scanningMode: number;
+  // Rotated and Lambert grids; null for regular lat/lon
+  projection: GridProjection | null;
+  // Gaussian grids: N parallels pole to equator, and the points on each
+  // row for reduced grids (Ni is then missing)
+  gaussian: { N: number; pl: number[] | null } | null;
+}
+
+export interface Grib1Field {
+  edition: 1;
+  messageOffset: number;
+  messageLength: number;
+  product: Grib1Product;
+  grid: Grib1Grid;
+  // Byte offset of the bitmap bits (section 3), or null if none
+  bitmapOffset: number | null;
+  // Section 4 (binary data section) offset and length
+  dataSectionOffset: number;
+  dataSectionLength: number;
+}
+
+function uint2(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function uint3(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+}
+
+/**
+ * GRIB1 signed integers use sign-and-magnitude, not two's complement
+ */
+function int2(bytes: Uint8Array, offset: number): number {
+  const magnitude = ((bytes[offset] & 0x7f) << 8) | bytes[offset + 1];
+  return bytes[offset] & 0x80 ? -magnitude : magnitude;
+}
+
+function int3(bytes: Uint8Array, offset: number): number {
+  const magnitude =
+    ((bytes[offset] & 0x7f) << 16) |
+    (bytes[offset + 1] << 8) |
+    bytes[offset + 2];
+  return bytes[offset] & 0x80 ? -magnitude : magnitude;
+}
+
+/**
+ * GRIB1 reference values are IBM System/360 single precision floats:
+ * sign bit, 7-bit base-16 exponent (excess 64), 24-bit mantissa
+ */
+function ibmFloat(bytes: Uint8Array, offset: number): number {
+  const sign = bytes[offset] & 0x80 ? -1 : 1;
+  const exponent = (bytes[offset] & 0x7f) - 64;
+  const mantissa = uint3(bytes, offset + 1) / 0x1000000;
+  return sign * mantissa * Math.pow(16, exponent);
+}
+
+// Level types whose octets 11-12 hold a single 16-bit value (table 3)
+const SINGLE_VALUE_LEVELS = new Set([
+  100, 103, 105, 107, 109, 111, 113, 115, 125, 160,
+]);
+
+/**
+ * Ensemble member number from the local extension after octet 40: ECMWF
+ * local definition 1 (octet 50) or the NCEP ensemble extension (octet 43)
+ */
+function perturbationNumber(
+  bytes: Uint8Array,
+  offset: number,
+  center: number
+): number | null {
+  const length = uint3(bytes, offset);
+  if (center === 98 && length >= 51 && bytes[offset + 40] === 1) {
+    return bytes[offset + 49];
+  }
+  if (center === 7 && length >= 44 && bytes[offset + 40] === 1) {
+    return bytes[offset + 42];
+  }
+  return null;
+}
+
+function parseProduct(bytes: Uint8Array, offset: number): Grib1Product {
+  const indicatorOfTypeOfLevel = bytes[offset + 9];
+  const yearOfCentury = bytes[offset + 12];
+  const century = bytes[offset + 24];
+
+  return {
+    tableVersion: bytes[offset + 3],
+    center: bytes[offset + 4],
+    subCenter: bytes[offset + 25],
+    generatingProcessIdentifier: bytes[offset + 5],
+    gridIdentifier: bytes[offset + 6],
+    indicatorOfParameter: bytes[offset + 8],
+    indicatorOfTypeOfLevel,
+    level: SINGLE_VALUE_LEVELS.has(indicatorOfTypeOfLevel)
+      ? uint2(bytes, offset + 10)
+      : bytes[offset + 10],
+    topLevel: bytes[offset + 10],
+    bottomLevel: bytes[offset + 11],
+    year: (century - 1) * 100 + yearOfCentury,
+    month: bytes[offset + 13],
+    day: bytes[offset + 14],
+    hour: bytes[offset + 15],
+    minute: bytes[offset + 16],
+    unitOfTimeRange: bytes[offset + 17],
+    P1: bytes[offset + 18],
+    P2: bytes[offset + 19],
+    timeRangeIndicator: bytes[offset + 20],
+    decimalScaleFactor: int2(bytes, offset + 26),
+    perturbationNumber: perturbationNumber(bytes, offset, bytes[offset + 4]),
+  };
+}
+
+function parseGrid(bytes: Uint8Array, offset: number): Grib1Grid {
+  const dataRepresentationType = bytes[offset + 5];
+  const grid: Grib1Grid = {
+    dataRepresentationType,
+    numberOfPoints: 0,
+    Ni: 0,
+    Nj: 0,
+    latitudeOfFirstGridPoint: 0,
+    longitudeOfFirstGridPoint: 0,
+    latitudeOfLastGridPoint: 0,
+    longitudeOfLastGridPoint: 0,
+    iDirectionIncrement: 0,
+    jDirectionIncrement: 0,
+    resolutionAndComponentFlags: 0,
+    scanningMode: 0,
+    projection: null,
+    gaussian: null,
+  };
+
+  // Type 0: regular latitude/longitude, coordinates in millidegrees;
+  // type 10 adds a rotated pole
+  if (dataRepresentationType === 0 || dataRepresentationType === 10) {
+    grid.Ni = uint2(bytes, offset + 6);
+    grid.Nj = uint2(bytes, offset + 8);
+    grid.numberOfPoints = grid.Ni * grid.Nj;
+    grid.latitudeOfFirstGridPoint = int3(bytes, offset + 10) / 1000;
+    grid.longitudeOfFirstGridPoint = int3(bytes, offset + 13) / 1000;
+    grid.resolutionAndComponentFlags = bytes[offset + 16];
+    grid.latitudeOfLastGridPoint = int3(bytes, offset + 17) / 1000;
+    grid.longitudeOfLastGridPoint = int3(bytes, offset + 20) / 1000;
+    grid.scanningMode = bytes[offset + 27];
+
+    // Increments are flagged as missing with all bits set
+    const di = uint2(bytes, offset + 23);
+    const dj = uint2(bytes, offset + 25);
+    grid.iDirectionIncrement =
+      di === 0xffff
+        ? Math.abs(
+            grid.longitudeOfLastGridPoint - grid.longitudeOfFirstGridPoint
+          ) / Math.max(grid.Ni - 1, 1)
+        : di / 1000;
+    grid.jDirectionIncrement =
+      dj === 0xffff
+        ? Math.abs(
+            grid.latitudeOfLastGridPoint - grid.latitudeOfFirstGridPoint
+          ) / Math.max(grid.Nj - 1, 1)
+        : dj / 1000;
+
+    // The angle of rotation (octets 39-42) is zero in practice and ignored
+    if (dataRepresentationType === 10) {
+      grid.projection = {
+        type: "rotated",
+        southPoleLat: int3(bytes, offset + 32) / 1000,
+        southPoleLon: int3(bytes, offset + 35) / 1000,
+      };
+    }
+  }
+
+  // Type 4: Gaussian latitude/longitude, with N in place of the j
+  // increment. Reduced grids have Ni missing and list the points on each
+  // row (PL) after any vertical coordinates.
+  if (dataRepresentationType === 4) {
+    grid.Nj = uint2(bytes, offset + 8);
+    grid.latitudeOfFirstGridPoint = int3(bytes, offset + 10) / 1000;
+    grid.longitudeOfFirstGridPoint = int3(bytes, offset + 13) / 1000;
+    grid.resolutionAndComponentFlags = bytes[offset + 16];
+    grid.latitudeOfLastGridPoint = int3(bytes, offset + 17) / 1000;
+    grid.longitudeOfLastGridPoint = int3(bytes, offset + 20) / 1000;
+    grid.scanningMode = bytes[offset + 27];
+
+    const ni = uint2(bytes, offset + 6);
+    const di = uint2(bytes, offset + 23);
+    grid.iDirectionIncrement = di === 0xffff ? 0 : di / 1000;
+
+    let pl: number[] | null = null;
+    const listLocation = bytes[offset + 4];
+    if (ni === 0xffff && listLocation !== 255 && listLocation !== 0) {
+      const start = offset + listLocation - 1 + 4 * bytes[offset + 3];
+      pl = [];
+      for (let r = 0; r < grid.Nj; r++) pl.push(uint2(bytes, start + 2 * r));
+    }
+    grid.Ni = ni === 0xffff ? 0 : ni;
+    grid.numberOfPoints = pl
+      ? pl.reduce((sum, count) => sum + count, 0)
+      : grid.Ni * grid.Nj;
+    grid.gaussian = { N: uint2(bytes, offset + 25), pl };
+  }
+
+  // Type 3: Lambert conformal, grid lengths in metres
+  if (dataRepresentationType === 3) {
+    grid.Ni = uint2(bytes, offset + 6);
+    grid.Nj = uint2(bytes, offset + 8);
+    grid.numberOfPoints = grid.Ni * grid.Nj;
+    grid.latitudeOfFirstGridPoint = int3(bytes, offset + 10) / 1000;
+    grid.longitudeOfFirstGridPoint = int3(bytes, offset + 13) / 1000;
+    grid.resolutionAndComponentFlags = bytes[offset + 16];
+    grid.scanningMode = bytes[offset + 27];
+    const Latin1 = int3(bytes, offset + 28) / 1000;
+    grid.projection = {
+      type: "lambert",
+      // GRIB1 gives grid lengths at the first standard parallel
+      LaD: Latin1,
+      LoV: int3(bytes, offset + 17) / 1000,
+      Dx: uint3(bytes, offset + 20),
+      Dy: uint3(bytes, offset + 23),
+      Latin1,
+      Latin2: int3(bytes, offset + 31) / 1000,
+      // Flag bit 2 marks the IAU 1965 oblate spheroid, otherwise a sphere
+      earthRadius: grid.resolutionAndComponentFlags & 0x40 ? 6371229 : 6367470,
+    };
+  }
+
+  return grid;
+}
+
+/**
+ * Scan a buffer and return every GRIB1 field it contains, without
+ * unpacking any data. Messages of other editions are skipped.
+ */
+export function scanGrib1(bytes: Uint8Array): Grib1Field[] {
+  const fields: Grib1Field[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    // Find the next "GRIB" indicator
+    if (
+      bytes[offset] !== 0x47 ||
+      bytes[offset + 1] !== 0x52 ||
+      bytes[offset + 2] !== 0x49 ||
+      bytes[offset + 3] !== 0x42
+    ) {
+      offset++;
+      continue;
+    }
+
+    const edition = bytes[offset + 7];
+    if (edition !== 1) {
+      if (offset + 16 > bytes.length) break;
+      offset += Math.max(statedLength(bytes, offset, 2), 8);
+      continue;
+    }
+
+    const messageLength = statedLength(bytes, offset, 1);
+    // Large messages state no section 4 length either; it runs to the
+    // end marker
+    const large = (uint3(bytes, offset + 4) & GRIB1_LARGE_MESSAGE) !== 0;
+
+    const pdsOffset = offset + 8;
+    const pdsLength = uint3(bytes, pdsOffset);
+    const flags = bytes[pdsOffset + 7];
+    const product = parseProduct(bytes, pdsOffset);
+
+    let sectionOffset = pdsOffset + pdsLength;
+    let grid: Grib1Grid | null = null;
+    if (flags & 0x80) {
+      grid = parseGrid(bytes, sectionOffset);
+      sectionOffset += uint3(bytes, sectionOffset);
+    }
+
+    let bitmapOffset: number | null = null;
+    if (flags & 0x40) {
+      // A non-zero table reference means a predefined bitmap, unsupported
+      if (uint2(bytes, sectionOffset + 4) === 0) {
+        bitmapOffset = sectionOffset + 6;
+      }
+      sectionOffset += uint3(bytes, sectionOffset);
+    }
+
+    // Fields without a grid description use a predefined grid (unsupported)
+    if (grid) {
+      fields.push({
+        edition: 1,
+        messageOffset: offset,
+        messageLength,
+        product,
+        grid,
+        bitmapOffset,
+        dataSectionOffset: sectionOffset,
+        dataSectionLength: large
+          ? offset + messageLength - 4 - sectionOffset
+          : uint3(bytes, sectionOffset),
+      });
+    }
+
+    offset += Math.max(messageLength, 8);
+  }
+
+  return fields;
+}
+
+/**
+ * Whether unpackGrib1Field can read a field: simple grid point packing
+ * only, not spherical harmonics or second-order packing
+ */
+export function isGrib1PackingSupported(
+  bytes: Uint8Array,
+  field: Grib1Field
+): boolean {
+  return (bytes[field.dataSectionOffset + 3] & 0xc0) === 0;
+}
+
+/**
+ * Unpack the values of a field in scan order. Points masked out by the
+ * bitmap are returned as NaN.
+ */
+export function unpackGrib1Field(
+  bytes: Uint8Array,
+  field: Grib1Field
+): Float32Array {
+  const offset = field.dataSectionOffset;
+  const flags = bytes[offset + 3];
+  if (flags & 0x80) {
+    throw new Error("Unsupported GRIB1 spherical harmonic data");
+  }
+  if (flags & 0x40) {
+    throw new Error("Unsupported GRIB1 second-order packing");
+  }
+
+  const unusedBits = flags & 0x0f;
+  const binaryScaleFactor = int2(bytes, offset + 4);
+  const referenceValue = ibmFloat(bytes, offset + 6);
+  const bitsPerValue = bytes[offset + 10];
+
+  const total = field.grid.numberOfPoints;
+  const packedCount =
+    bitsPerValue === 0
+      ? total
+      : Math.floor(
+          ((field.dataSectionLength - 11) * 8 - unusedBits) / bitsPerValue
+        );
+
+  // Y = (R + X * 2^E) / 10^D
+  const binaryScale = Math.pow(2, binaryScaleFactor);
+  const decimalScale = Math.pow(10, -field.product.decimalScaleFactor);
+  const packed = new Float32Array(packedCount);
+  let bitPosition = (offset + 11) * 8;
+  for (let i = 0; i < packedCount; i++) {
+    let raw = 0;
+    for (let b = 0; b < bitsPerValue; b++, bitPosition++) {
+      const bit = (bytes[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1;
+      raw = raw * 2 + bit;
+    }
+    packed[i] = (referenceValue + raw * binaryScale) * decimalScale;
+  }
+
+  if (field.bitmapOffset === null) {
+    return packed.length === total ? packed : packed.slice(0, total);
+  }
+
+  // Expand onto the full grid using the bitmap
+  const values = new Float32Array(total);
+  let next = 0;
+  for (let i = 0; i < total; i++) {
+    const byte = bytes[field.bitmapOffset + (i >> 3)];
+    const present = (byte >> (7 - (i & 7))) & 1;
+    values[i] = present ? packed[next++] : NaN;
+  }
+  return values;
+}
+
+/**
+ * Parameter names for GRIB1 table 2 entries (WMO standard table, shared
+ * by NCEP tables 2 and 3), following the eccodes shortName conventions
+ * used for GRIB2 so mixed-edition files select messages the same way
+ */
+const PARAMETERS: Record<number, string> = {
+  1: "sp",
+  2: "prmsl",
+  7: "gh",
+  11: "t",
+  33: "u",
+  34: "v",
+  49: "ucurr",
+  50: "vcurr",
+  52: "r",
+  61: "tp",
+  100: "swh",
+  101: "wvdir",
+  102: "shww",
+  103: "mpww",
+  104: "swdir",
+  105: "shts",
+  106: "mpts",
+  107: "dirpw",
+  108: "perpw",
+  180: "gust",
+};
+
+// ECMWF local table 128 uses its own numbering
+const ECMWF_PARAMETERS: Record<number, string> = {
+  151: "msl",
+  165: "10u",
+  166: "10v",
+  167: "2t",
+  228: "tp",
+};
+
+// ECMWF local table 140 (wave model)
+const ECMWF_WAVE_PARAMETERS: Record<number, string> = {
+  229: "swh",
+  230: "mwd",
+  232: "mwp",
+  234: "shww",
+  235: "mdww",
+  236: "mpww",
+  237: "shts",
+  238: "mdts",
+  239: "mpts",
+};
+
+// Parameters eccodes prefixes with the height when at 2m or 10m above ground
+const HEIGHT_PREFIXED = new Set(["t", "r", "u", "v"]);
+
+/**
+ * eccodes-style shortName for a field, e.g. "10u" for 10m U wind
+ */
+export function grib1ShortName(field: Grib1Field): string {
+  const { tableVersion, indicatorOfParameter, indicatorOfTypeOfLevel, level } =
+    field.product;
+
+  if (tableVersion === 128) {
+    return ECMWF_PARAMETERS[indicatorOfParameter] ?? "unknown";
+  }
+  if (tableVersion === 140) {
+    return ECMWF_WAVE_PARAMETERS[indicatorOfParameter] ?? "unknown";
+  }
+
+  const shortName = PARAMETERS[indicatorOfParameter];
+  if (!shortName) return "unknown";
+
+  if (
+    indicatorOfTypeOfLevel === 105 &&
+    (level === 2 || level === 10) &&
+    HEIGHT_PREFIXED.has(shortName)
+  ) {
+    return `${level}${shortName}`;
+  }
+  return shortName;
+}
+
+/**
+ * eccodes-style typeOfLevel and level value for a field (table 3)
+ */
+export function grib1Level(field: Grib1Field): {
+  typeOfLevel: string;
+  level: number;
+} {
+  const { indicatorOfTypeOfLevel: type, level } = field.product;
+
+  switch (type) {
+    case 1:
+      return { typeOfLevel: "surface", level: 0 };
+    case 100:
+      return { typeOfLevel: "isobaricInhPa", level };
+    case 102:
+      return { typeOfLevel: "meanSea", level: 0 };
+    case 103:
+      return { typeOfLevel: "heightAboveSea", level };
+    case 105:
+      return { typeOfLevel: "heightAboveGround", level };
+    default:
+      return { typeOfLevel: `level${type}`, level };
+  }
+}
+
+/**
+ * Hours per unit of time range (table 4)
+ */
+const HOURS_PER_TIME_UNIT: Record<number, number> = {
+  0: 1 / 60, // Minute
+  1: 1, // Hour
+  2: 24, // Day
+  10: 3, // 3 hours
+  11: 6, // 6 hours
+  12: 12, // 12 hours
+  13: 1 / 4, // 15 minutes (NCEP)
+  14: 1 / 2, // 30 minutes (NCEP)
+  254: 1 / 3600, // Second
+};
+
+/**
+ * GRIB2 statistical process (code table 4.10) for a time range
+ * indicator (table 5), or null for fields that are not processed over
+ * their range
+ */
+export function grib1StatisticalProcessing(
+  timeRangeIndicator: number
+): number | null {
+  switch (timeRangeIndicator) {
+    case 3: // Average
+      return 0;
+    case 4: // Accumulation
+      return 1;
+    case 5: // Difference
+      return 4;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Forecast step range in hours from the time range indicator (table 5).
+ * Ranges (averages, accumulations, differences) span P1 to P2, like an
+ * eccodes stepRange of "0-6"; other fields start and end at one step.
+ */
+export function grib1StepRange(field: Grib1Field): {
+  startStep: number;
+  endStep: number;
+} {
+  const { unitOfTimeRange, P1, P2, timeRangeIndicator } = field.product;
+  const hoursPerUnit = HOURS_PER_TIME_UNIT[unitOfTimeRange] ?? 1;
+
+  switch (timeRangeIndicator) {
+    case 2: // Valid between P1 and P2
+    case 3: // Average from P1 to P2
+    case 4: // Accumulation from P1 to P2
+    case 5: // Difference P2 - P1
+      return { startStep: P1 * hoursPerUnit, endStep: P2 * hoursPerUnit };
+    case 10: {
+      // P1 occupies octets 19-20
+      const step = ((P1 << 8) | P2) * hoursPerUnit;
+      return { startStep: step, endStep: step };
+    }
+    default: {
+      // 0: forecast valid at P1, 1: analysis
+      const step = P1 * hoursPerUnit;
+      return { startStep: step, endStep: step };
+    }
+  }
+}
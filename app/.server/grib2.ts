@@ -0,0 +1,919 @@
+/**
+ * GRIB2 Decoder
+ *
+ * Pure TypeScript reader for GRIB edition 2 files. It decodes the values
+ * of every file; eccodes, when installed, only lists the messages and
+ * repacks packings not handled here.
+ *
+ * Reads sections 0-7 of every message (including messages that repeat
+ * sections 2-7 for several fields) and unpacks:
+ * - Simple packing (template 5.0)
+ * - Complex packing (template 5.2)
+ * - Complex packing with spatial differencing (template 5.3)
+ * - Bitmaps (section 6), including "previously defined" bitmaps
+ *
+ * Reference: WMO Manual on Codes, FM 92 GRIB edition 2
+ */
+
+import type { GridProjection } from "./projections";
+
+export interface Grib2Identification {
+  center: number;
+  subCenter: number;
+  masterTablesVersion: number;
+  localTablesVersion: number;
+  significanceOfReferenceTime: number;
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  productionStatus: number;
+  typeOfData: number;
+}
+
+export interface Grib2Grid {
+  template: number;
+  numberOfPoints: number;
+  shapeOfEarth: number;
+  Ni: number;
+  Nj: number;
+  // Degrees, as encoded (longitudes may be 0-360)
+  latitudeOfFirstGridPoint: number;
+  longitudeOfFirstGridPoint: number;
+  latitudeOfLastGridPoint: number;
+  longitudeOfLastGridPoint: number;
+  iDirectionIncrement: number;
+  jDirectionIncrement: number;
+  resolutionAndComponentFlags: number;
+  scanningMode: number;
+  // Rotated and Lambert grids; null for regular lat/lon
+  projection: GridProjection | null;
+  // Gaussian grids: N parallels pole to equator, and the points on each
+  // row for reduced grids (Ni is then missing)
+  gaussian: { N: number; pl: number[] | null } | null;
+}
+
+export interface Grib2Product {
+  template: number;
+  parameterCategory: number;
+  parameterNumber: number;
+  typeOfGeneratingProcess: number;
+  generatingProcessIdentifier: number;
+  indicatorOfUnitOfTimeRange: number;
+  forecastTime: number;
+  typeOfFirstFixedSurface: number;
+  firstFixedSurface: number;
+  typeOfSecondFixedSurface: number;
+  secondFixedSurface: number;
+  // Ensemble templates (4.1, 4.11)
+  perturbationNumber: number | null;
+  numberOfForecastsInEnsemble: number | null;
+  // Statistically processed templates (4.8, 4.11): the processing
+  // interval, which has its own time unit
+  typeOfStatisticalProcessing: number | null;
+  indicatorOfUnitForTimeRange: number | null;
+  lengthOfTimeRange: number | null;
+  // End of the overall time interval (YYYYMMDD, HHMM), which is when
+  // statistically processed fields are valid
+  validityDate: number | null;
+  validityTime: number | null;
+}
+
+export interface Grib2Packing {
+  template: number;
+  numberOfValues: number;
+  referenceValue: number;
+  binaryScaleFactor: number;
+  decimalScaleFactor: number;
+  bitsPerValue: number;
+  // Complex packing (5.2 / 5.3)
+  missingValueManagement: number;
+  numberOfGroups: number;
+  referenceForGroupWidths: number;
+  bitsForGroupWidths: number;
+  referenceForGroupLengths: number;
+  groupLengthIncrement: number;
+  trueLengthOfLastGroup: number;
+  bitsForScaledGroupLengths: number;
+  orderOfSpatialDifferencing: number;
+  octetsForExtraDescriptors: number;
+}
+
+export interface Grib2Field {
+  edition: 2;
+  // Byte offset of the message containing this field
+  messageOffset: number;
+  messageLength: number;
+  discipline: number;
+  identification: Grib2Identification;
+  grid: Grib2Grid;
+  product: Grib2Product;
+  packing: Grib2Packing;
+  // Byte offset of the bitmap bits (section 6), or null if none applies
+  bitmapOffset: number | null;
+  // Byte range of the packed data (section 7 payload)
+  dataOffset: number;
+  dataLength: number;
+}
+
+// Value used by GRIB2 for "missing" in 4-byte unsigned fields
+const MISSING_UINT32 = 0xffffffff;
+
+function uint2(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function uint4(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset] * 0x1000000 +
+    ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3])
+  );
+}
+
+/**
+ * GRIB2 signed integers use sign-and-magnitude, not two's complement
+ */
+function int2(bytes: Uint8Array, offset: number): number {
+  const magnitude = ((bytes[offset] & 0x7f) << 8) | bytes[offset + 1];
+  return bytes[offset] & 0x80 ? -magnitude : magnitude;
+}
+
+function int4(bytes: Uint8Array, offset: number): number {
+  const magnitude =
+    (bytes[offset] & 0x7f) * 0x1000000 +
+    ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+  return bytes[offset] & 0x80 ? -magnitude : magnitude;
+}
+
+function float4(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getFloat32(0);
+}
+
+/**
+ * Scaled value of a fixed surface (value / 10^scale), NaN when missing
+ */
+function scaledValue(bytes: Uint8Array, offset: number): number {
+  const scale = bytes[offset];
+  const raw = uint4(bytes, offset + 1);
+  if (scale === 0xff || raw === MISSING_UINT32) return NaN;
+  const value = int4(bytes, offset + 1);
+  const exponent = scale & 0x80 ? -(scale & 0x7f) : scale;
+  return exponent === 0 ? value : value / Math.pow(10, exponent);
+}
+
+/**
+ * Sequential big-endian bit reader over a byte array
+ */
+class BitReader {
+  private bitPosition: number;
+
+  constructor(
+    private bytes: Uint8Array,
+    byteOffset: number
+  ) {
+    this.bitPosition = byteOffset * 8;
+  }
+
+  read(bitCount: number): number {
+    let value = 0;
+    let remaining = bitCount;
+    while (remaining > 0) {
+      const byte = this.bytes[Math.floor(this.bitPosition / 8)] ?? 0;
+      const bitOffset = this.bitPosition % 8;
+      const available = 8 - bitOffset;
+      const take = Math.min(available, remaining);
+      const bits = (byte >> (available - take)) & ((1 << take) - 1);
+      value = value * (1 << take) + bits;
+      remaining -= take;
+      this.bitPosition += take;
+    }
+    return value;
+  }
+
+  alignToByte(): void {
+    this.bitPosition = Math.ceil(this.bitPosition / 8) * 8;
+  }
+}
+
+function parseIdentification(
+  bytes: Uint8Array,
+  offset: number
+): Grib2Identification {
+  return {
+    center: uint2(bytes, offset + 5),
+    subCenter: uint2(bytes, offset + 7),
+    masterTablesVersion: bytes[offset + 9],
+    localTablesVersion: bytes[offset + 10],
+    significanceOfReferenceTime: bytes[offset + 11],
+    year: uint2(bytes, offset + 12),
+    month: bytes[offset + 14],
+    day: bytes[offset + 15],
+    hour: bytes[offset + 16],
+    minute: bytes[offset + 17],
+    second: bytes[offset + 18],
+    productionStatus: bytes[offset + 19],
+    typeOfData: bytes[offset + 20],
+  };
+}
+
+function parseGrid(bytes: Uint8Array, offset: number): Grib2Grid {
+  const template = uint2(bytes, offset + 12);
+  const grid: Grib2Grid = {
+    template,
+    numberOfPoints: uint4(bytes, offset + 6),
+    shapeOfEarth: bytes[offset + 14],
+    Ni: 0,
+    Nj: 0,
+    latitudeOfFirstGridPoint: 0,
+    longitudeOfFirstGridPoint: 0,
+    latitudeOfLastGridPoint: 0,
+    longitudeOfLastGridPoint: 0,
+    iDirectionIncrement: 0,
+    jDirectionIncrement: 0,
+    resolutionAndComponentFlags: 0,
+    scanningMode: 0,
+    projection: null,
+    gaussian: null,
+  };
+
+  // Template 3.0: regular latitude/longitude; 3.1 adds a rotated pole
+  if (template === 0 || template === 1) {
+    const basicAngle = uint4(bytes, offset + 38);
+    const subdivisions = uint4(bytes, offset + 42);
+    const unit =
+      basicAngle === 0 || basicAngle === MISSING_UINT32
+        ? 1e-6
+        : basicAngle / subdivisions;
+
+    grid.Ni = uint4(bytes, offset + 30);
+    grid.Nj = uint4(bytes, offset + 34);
+    grid.latitudeOfFirstGridPoint = int4(bytes, offset + 46) * unit;
+    grid.longitudeOfFirstGridPoint = int4(bytes, offset + 50) * unit;
+    grid.resolutionAndComponentFlags = bytes[offset + 54];
+    grid.latitudeOfLastGridPoint = int4(bytes, offset + 55) * unit;
+    grid.longitudeOfLastGridPoint = int4(bytes, offset + 59) * unit;
+    grid.scanningMode = bytes[offset + 71];
+
+    const di = uint4(bytes, offset + 63);
+    const dj = uint4(bytes, offset + 67);
+    grid.iDirectionIncrement =
+      di === MISSING_UINT32
+        ? Math.abs(
+            grid.longitudeOfLastGridPoint - grid.longitudeOfFirstGridPoint
+          ) / Math.max(grid.Ni - 1, 1)
+        : di * unit;
+    grid.jDirectionIncrement =
+      dj === MISSING_UINT32
+        ? Math.abs(
+            grid.latitudeOfLastGridPoint - grid.latitudeOfFirstGridPoint
+          ) / Math.max(grid.Nj - 1, 1)
+        : dj * unit;
+
+    // The angle of rotation (octets 81-84) is zero in practice and ignored
+    if (template === 1) {
+      grid.projection = {
+        type: "rotated",
+        southPoleLat: int4(bytes, offset + 72) * unit,
+        southPoleLon: uint4(bytes, offset + 76) * unit,
+      };
+    }
+  }
+
+  // Template 3.40: Gaussian latitude/longitude, laid out as template 3.0
+  // with N in place of the j increment and an optional pl list after it
+  if (template === 40) {
+    const basicAngle = uint4(bytes, offset + 38);
+    const subdivisions = uint4(bytes, offset + 42);
+    const unit =
+      basicAngle === 0 || basicAngle === MISSING_UINT32
+        ? 1e-6
+        : basicAngle / subdivisions;
+
+    grid.Ni = uint4(bytes, offset + 30);
+    grid.Nj = uint4(bytes, offset + 34);
+    grid.latitudeOfFirstGridPoint = int4(bytes, offset + 46) * unit;
+    grid.longitudeOfFirstGridPoint = int4(bytes, offset + 50) * unit;
+    grid.resolutionAndComponentFlags = bytes[offset + 54];
+    grid.latitudeOfLastGridPoint = int4(bytes, offset + 55) * unit;
+    grid.longitudeOfLastGridPoint = int4(bytes, offset + 59) * unit;
+    grid.scanningMode = bytes[offset + 71];
+
+    const di = uint4(bytes, offset + 63);
+    grid.iDirectionIncrement = di === MISSING_UINT32 ? 0 : di * unit;
+
+    // Octet 11: bytes per pl entry (0 when there is no list)
+    const plSize = bytes[offset + 10];
+    let pl: number[] | null = null;
+    if (plSize > 0) {
+      pl = [];
+      for (let r = 0; r < grid.Nj; r++) {
+        const at = offset + 72 + r * plSize;
+        pl.push(
+          plSize === 1
+            ? bytes[at]
+            : plSize === 2
+              ? uint2(bytes, at)
+              : uint4(bytes, at)
+        );
+      }
+    }
+    grid.gaussian = { N: uint4(bytes, offset + 67), pl };
+  }
+
+  // Template 3.30: Lambert conformal
+  if (template === 30) {
+    grid.Ni = uint4(bytes, offset + 30);
+    grid.Nj = uint4(bytes, offset + 34);
+    grid.latitudeOfFirstGridPoint = int4(bytes, offset + 38) * 1e-6;
+    grid.longitudeOfFirstGridPoint = uint4(bytes, offset + 42) * 1e-6;
+    grid.resolutionAndComponentFlags = bytes[offset + 46];
+    grid.scanningMode = bytes[offset + 64];
+    grid.projection = {
+      type: "lambert",
+      LaD: int4(bytes, offset + 47) * 1e-6,
+      LoV: uint4(bytes, offset + 51) * 1e-6,
+      // Grid lengths are in millimetres
+      Dx: uint4(bytes, offset + 55) / 1000,
+      Dy: uint4(bytes, offset + 59) / 1000,
+      Latin1: int4(bytes, offset + 65) * 1e-6,
+      Latin2: int4(bytes, offset + 69) * 1e-6,
+      earthRadius: earthRadius(bytes, offset),
+    };
+  }
+
+  return grid;
+}
+
+/**
+ * Earth radius in metres for the shape of the earth (code table 3.2).
+ * Oblate spheroids are approximated by a sphere of mean radius.
+ */
+function earthRadius(bytes: Uint8Array, offset: number): number {
+  switch (bytes[offset + 14]) {
+    case 0:
+      return 6367470;
+    case 1:
+      return uint4(bytes, offset + 16) / Math.pow(10, bytes[offset + 15]);
+    case 8:
+      return 6371200;
+    default:
+      return 6371229;
+  }
+}
+
+function parseProduct(bytes: Uint8Array, offset: number): Grib2Product {
+  const template = uint2(bytes, offset + 7);
+  const product: Grib2Product = {
+    template,
+    parameterCategory: bytes[offset + 9],
+    parameterNumber: bytes[offset + 10],
+    typeOfGeneratingProcess: bytes[offset + 11],
+    generatingProcessIdentifier: bytes[offset + 13],
+    indicatorOfUnitOfTimeRange: bytes[offset + 17],
+    forecastTime: int4(bytes, offset + 18),
+    typeOfFirstFixedSurface: bytes[offset + 22],
+    firstFixedSurface: scaledValue(bytes, offset + 23),
+    typeOfSecondFixedSurface: bytes[offset + 28],
+    secondFixedSurface: scaledValue(bytes, offset + 29),
+    perturbationNumber: null,
+    numberOfForecastsInEnsemble: null,
+    typeOfStatisticalProcessing: null,
+    indicatorOfUnitForTimeRange: null,
+    lengthOfTimeRange: null,
+    validityDate: null,
+    validityTime: null,
+  };
+
+  // Templates 4.1 and 4.11 add ensemble information after the 4.0 block
+  if (template === 1 || template === 11) {
+    product.perturbationNumber = bytes[offset + 35];
+    product.numberOfForecastsInEnsemble = bytes[offset + 36];
+  }
+
+  // Templates 4.8 and 4.11 describe a statistically processed interval;
+  // only the first time range specification is used
+  const rangeOffset = template === 8 ? 46 : template === 11 ? 49 : -1;
+  if (rangeOffset > 0) {
+    product.typeOfStatisticalProcessing = bytes[offset + rangeOffset];
+    product.indicatorOfUnitForTimeRange = bytes[offset + rangeOffset + 2];
+    product.lengthOfTimeRange = uint4(bytes, offset + rangeOffset + 3);
+    // The end of the interval precedes the time range specifications
+    const end = offset + rangeOffset - 12;
+    product.validityDate =
+      uint2(bytes, end) * 10000 + bytes[end + 2] * 100 + bytes[end + 3];
+    product.validityTime = bytes[end + 4] * 100 + bytes[end + 5];
+  }
+
+  return product;
+}
+
+function parsePacking(bytes: Uint8Array, offset: number): Grib2Packing {
+  const template = uint2(bytes, offset + 9);
+  const packing: Grib2Packing = {
+    template,
+    numberOfValues: uint4(bytes, offset + 5),
+    referenceValue: float4(bytes, offset + 11),
+    binaryScaleFactor: int2(bytes, offset + 15),
+    decimalScaleFactor: int2(bytes, offset + 17),
+    bitsPerValue: bytes[offset + 19],
+    missingValueManagement: 0,
+    numberOfGroups: 0,
+    referenceForGroupWidths: 0,
+    bitsForGroupWidths: 0,
+    referenceForGroupLengths: 0,
+    groupLengthIncrement: 0,
+    trueLengthOfLastGroup: 0,
+    bitsForScaledGroupLengths: 0,
+    orderOfSpatialDifferencing: 0,
+    octetsForExtraDescriptors: 0,
+  };
+
+  if (template === 2 || template === 3) {
+    packing.missingValueManagement = bytes[offset + 22];
+    packing.numberOfGroups = uint4(bytes, offset + 31);
+    packing.referenceForGroupWidths = bytes[offset + 35];
+    packing.bitsForGroupWidths = bytes[offset + 36];
+    packing.referenceForGroupLengths = uint4(bytes, offset + 37);
+    packing.groupLengthIncrement = bytes[offset + 41];
+    packing.trueLengthOfLastGroup = uint4(bytes, offset + 42);
+    packing.bitsForScaledGroupLengths = bytes[offset + 46];
+  }
+
+  if (template === 3) {
+    packing.orderOfSpatialDifferencing = bytes[offset + 47];
+    packing.octetsForExtraDescriptors = bytes[offset + 48];
+  }
+
+  return packing;
+}
+
+/**
+ * Scan a buffer and return every GRIB2 field it contains, without
+ * unpacking any data. Non-GRIB bytes between messages are skipped.
+ * Messages of other editions are skipped.
+ */
+export function scanGrib2(bytes: Uint8Array): Grib2Field[] {
+  const fields: Grib2Field[] = [];
+  let offset = 0;
+
+  while (offset + 16 <= bytes.length) {
+    // Find the next "GRIB" indicator
+    if (
+      bytes[offset] !== 0x47 ||
+      bytes[offset + 1] !== 0x52 ||
+      bytes[offset + 2] !== 0x49 ||
+      bytes[offset + 3] !== 0x42
+    ) {
+      offset++;
+      continue;
+    }
+
+    const edition = bytes[offset + 7];
+    if (edition !== 2) {
+      // GRIB1 stores the total length in octets 5-7
+      const length =
+        (bytes[offset + 4] << 16) |
+        (bytes[offset + 5] << 8) |
+        bytes[offset + 6];
+      offset += Math.max(length, 4);
+      continue;
+    }
+
+    const messageLength =
+      uint4(bytes, offset + 8) * 0x100000000 + uint4(bytes, offset + 12);
+    const messageEnd = Math.min(offset + messageLength, bytes.length);
+    const discipline = bytes[offset + 6];
+
+    let identification: Grib2Identification | null = null;
+    let grid: Grib2Grid | null = null;
+    let product: Grib2Product | null = null;
+    let packing: Grib2Packing | null = null;
+    let bitmapOffset: number | null = null;
+    let previousBitmapOffset: number | null = null;
+
+    let sectionOffset = offset + 16;
+    while (sectionOffset + 5 <= messageEnd - 4) {
+      const sectionLength = uint4(bytes, sectionOffset);
+      const sectionNumber = bytes[sectionOffset + 4];
+      if (sectionLength < 5) break;
+
+      switch (sectionNumber) {
+        case 1:
+          identification = parseIdentification(bytes, sectionOffset);
+          break;
+        case 3:
+          grid = parseGrid(bytes, sectionOffset);
+          break;
+        case 4:
+          product = parseProduct(bytes, sectionOffset);
+          break;
+        case 5:
+          packing = parsePacking(bytes, sectionOffset);
+          break;
+        case 6: {
+          const indicator = bytes[sectionOffset + 5];
+          if (indicator === 0) {
+            bitmapOffset = sectionOffset + 6;
+            previousBitmapOffset = bitmapOffset;
+          } else if (indicator === 254) {
+            bitmapOffset = previousBitmapOffset;
+          } else {
+            bitmapOffset = null;
+          }
+          break;
+        }
+        case 7:
+          if (identification && grid && product && packing) {
+            fields.push({
+              edition: 2,
+              messageOffset: offset,
+              messageLength,
+              discipline,
+              identification,
+              grid,
+              product,
+              packing,
+              bitmapOffset,
+              dataOffset: sectionOffset + 5,
+              dataLength: sectionLength - 5,
+            });
+          }
+          break;
+      }
+
+      sectionOffset += sectionLength;
+    }
+
+    offset += Math.max(messageLength, 16);
+  }
+
+  return fields;
+}
+
+/**
+ * Read a sign-and-magnitude integer spanning `octets` bytes
+ */
+function readSignedOctets(reader: BitReader, octets: number): number {
+  const bits = octets * 8;
+  const raw = reader.read(bits);
+  const signBit = Math.pow(2, bits - 1);
+  return raw >= signBit ? -(raw - signBit) : raw;
+}
+
+/**
+ * Unpack simple packing (template 5.0) into integer values
+ */
+function unpackSimple(
+  bytes: Uint8Array,
+  field: Grib2Field,
+  out: Float64Array
+): void {
+  const { bitsPerValue } = field.packing;
+  if (bitsPerValue === 0) {
+    out.fill(0);
+    return;
+  }
+  const reader = new BitReader(bytes, field.dataOffset);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = reader.read(bitsPerValue);
+  }
+}
+
+/**
+ * Unpack complex packing (templates 5.2 and 5.3) into integer values.
+ * Missing values are marked with NaN.
+ */
+function unpackComplex(
+  bytes: Uint8Array,
+  field: Grib2Field,
+  out: Float64Array
+): void {
+  const p = field.packing;
+  const reader = new BitReader(bytes, field.dataOffset);
+  const order = p.template === 3 ? p.orderOfSpatialDifferencing : 0;
+
+  // Spatial differencing descriptors precede the groups
+  let firstValue = 0;
+  let secondValue = 0;
+  let minimumDifference = 0;
+  if (order > 0) {
+    firstValue = readSignedOctets(reader, p.octetsForExtraDescriptors);
+    if (order === 2) {
+      secondValue = readSignedOctets(reader, p.octetsForExtraDescriptors);
+    }
+    minimumDifference = readSignedOctets(reader, p.octetsForExtraDescriptors);
+  }
+
+  const groupCount = p.numberOfGroups;
+  const references = new Float64Array(groupCount);
+  const widths = new Uint8Array(groupCount);
+  const lengths = new Uint32Array(groupCount);
+
+  for (let g = 0; g < groupCount; g++) {
+    references[g] = reader.read(p.bitsPerValue);
+  }
+  reader.alignToByte();
+
+  for (let g = 0; g < groupCount; g++) {
+    widths[g] = reader.read(p.bitsForGroupWidths) + p.referenceForGroupWidths;
+  }
+  reader.alignToByte();
+
+  for (let g = 0; g < groupCount; g++) {
+    lengths[g] =
+      p.referenceForGroupLengths +
+      reader.read(p.bitsForScaledGroupLengths) * p.groupLengthIncrement;
+  }
+  if (groupCount > 0) {
+    lengths[groupCount - 1] = p.trueLengthOfLastGroup;
+  }
+  reader.alignToByte();
+
+  const management = p.missingValueManagement;
+  const groupMissing1 = Math.pow(2, p.bitsPerValue) - 1;
+  const groupMissing2 = groupMissing1 - 1;
+
+  let n = 0;
+  for (let g = 0; g < groupCount && n < out.length; g++) {
+    const width = widths[g];
+    const reference = references[g];
+    const length = Math.min(lengths[g], out.length - n);
+
+    if (width === 0) {
+      const missing =
+        (management >= 1 && reference === groupMissing1) ||
+        (management === 2 && reference === groupMissing2);
+      out.fill(missing ? NaN : reference, n, n + length);
+      n += length;
+      continue;
+    }
+
+    const missing1 = Math.pow(2, width) - 1;
+    const missing2 = missing1 - 1;
+    for (let k = 0; k < length; k++, n++) {
+      const value = reader.read(width);
+      if (
+        (management >= 1 && value === missing1) ||
+        (management === 2 && value === missing2)
+      ) {
+        out[n] = NaN;
+      } else {
+        out[n] = reference + value;
+      }
+    }
+  }
+
+  if (order === 0) return;
+
+  // Undo spatial differencing over the non-missing values
+  let seen = 0;
+  let previous1 = 0;
+  let previous2 = 0;
+  for (let i = 0; i < out.length; i++) {
+    if (Number.isNaN(out[i])) continue;
+    let value: number;
+    if (seen === 0) {
+      value = firstValue;
+    } else if (seen === 1 && order === 2) {
+      value = secondValue;
+    } else if (order === 1) {
+      value = out[i] + minimumDifference + previous1;
+    } else {
+      value = out[i] + minimumDifference + 2 * previous1 - previous2;
+    }
+    previous2 = previous1;
+    previous1 = value;
+    out[i] = value;
+    seen++;
+  }
+}
+
+// Data representation templates handled by unpackGrib2Field
+const SUPPORTED_PACKINGS = new Set([0, 2, 3]);
+
+/**
+ * Whether unpackGrib2Field can read a field's data representation
+ * template
+ */
+export function isGrib2PackingSupported(field: Grib2Field): boolean {
+  return SUPPORTED_PACKINGS.has(field.packing.template);
+}
+
+/**
+ * Unpack the values of a field in scan order. Points masked out by the
+ * bitmap or flagged missing by complex packing are returned as NaN.
+ */
+export function unpackGrib2Field(
+  bytes: Uint8Array,
+  field: Grib2Field
+): Float32Array {
+  const p = field.packing;
+  const packed = new Float64Array(p.numberOfValues);
+
+  switch (p.template) {
+    case 0:
+      unpackSimple(bytes, field, packed);
+      break;
+    case 2:
+    case 3:
+      unpackComplex(bytes, field, packed);
+      break;
+    default:
+      throw new Error(
+        `Unsupported GRIB2 data representation template 5.${p.template}`
+      );
+  }
+
+  // Y = (R + X * 2^E) / 10^D
+  const binaryScale = Math.pow(2, p.binaryScaleFactor);
+  const decimalScale = Math.pow(10, -p.decimalScaleFactor);
+  const scaled = new Float32Array(p.numberOfValues);
+  for (let i = 0; i < packed.length; i++) {
+    scaled[i] = (p.referenceValue + packed[i] * binaryScale) * decimalScale;
+  }
+
+  if (field.bitmapOffset === null) {
+    return scaled;
+  }
+
+  // Expand onto the full grid using the bitmap
+  const total = field.grid.numberOfPoints;
+  const values = new Float32Array(total);
+  let next = 0;
+  for (let i = 0; i < total; i++) {
+    const byte = bytes[field.bitmapOffset + (i >> 3)];
+    const present = (byte >> (7 - (i & 7))) & 1;
+    values[i] = present ? scaled[next++] : NaN;
+  }
+  return values;
+}
+
+/**
+ * Reorder scan-order values so rows run north to south and columns
+ * west to east, as leaflet-velocity expects.
+ *
+ * Scanning mode flags (table 3.4):
+ * - 0x80: points scan in the -i direction (east to west)
+ * - 0x40: points scan in the +j direction (south to north)
+ * - 0x20: adjacent points are consecutive in j, not i
+ * - 0x10: adjacent rows scan in opposite directions
+ */
+export function orderNorthToSouth(
+  values: Float32Array,
+  Ni: number,
+  Nj: number,
+  scanningMode: number
+): Float32Array {
+  const westward = (scanningMode & 0x80) !== 0;
+  const northward = (scanningMode & 0x40) !== 0;
+  const columnMajor = (scanningMode & 0x20) !== 0;
+  const boustrophedon = (scanningMode & 0x10) !== 0;
+
+  if (!westward && !northward && !columnMajor && !boustrophedon) {
+    return values;
+  }
+
+  const ordered = new Float32Array(Ni * Nj);
+  const rows = columnMajor ? Ni : Nj;
+  const rowLength = columnMajor ? Nj : Ni;
+
+  for (let r = 0; r < rows; r++) {
+    const reversed = boustrophedon && r % 2 === 1;
+    for (let c = 0; c < rowLength; c++) {
+      const source = values[r * rowLength + (reversed ? rowLength - 1 - c : c)];
+      let i = columnMajor ? r : c;
+      let j = columnMajor ? c : r;
+      if (westward) i = Ni - 1 - i;
+      if (northward) j = Nj - 1 - j;
+      ordered[j * Ni + i] = source;
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Parameter names for (discipline, category, number), following the
+ * eccodes shortName conventions so both parsers select messages the same way
+ */
+const PARAMETERS: Record<string, { shortName: string; name: string }> = {
+  "0:0:0": { shortName: "t", name: "Temperature" },
+  "0:1:1": { shortName: "r", name: "Relative humidity" },
+  "0:1:8": { shortName: "tp", name: "Total precipitation" },
+  "0:2:2": { shortName: "u", name: "U component of wind" },
+  "0:2:3": { shortName: "v", name: "V component of wind" },
+  "0:2:22": { shortName: "gust", name: "Wind speed (gust)" },
+  "0:3:0": { shortName: "sp", name: "Surface pressure" },
+  "0:3:1": { shortName: "prmsl", name: "Pressure reduced to MSL" },
+  "0:3:5": { shortName: "gh", name: "Geopotential height" },
+  "10:0:3": {
+    shortName: "swh",
+    name: "Significant height of combined wind waves and swell",
+  },
+  "10:0:4": { shortName: "wvdir", name: "Direction of wind waves" },
+  "10:0:5": { shortName: "shww", name: "Significant height of wind waves" },
+  "10:0:6": { shortName: "mpww", name: "Mean period of wind waves" },
+  "10:0:7": { shortName: "swdir", name: "Direction of swell waves" },
+  "10:0:8": { shortName: "shts", name: "Significant height of swell waves" },
+  "10:0:9": { shortName: "mpts", name: "Mean period of swell waves" },
+  "10:0:10": { shortName: "dirpw", name: "Primary wave direction" },
+  "10:0:11": { shortName: "perpw", name: "Primary wave mean period" },
+  "10:0:14": {
+    shortName: "mwd",
+    name: "Direction of combined wind waves and swell",
+  },
+  "10:0:15": {
+    shortName: "mwp",
+    name: "Mean period of combined wind waves and swell",
+  },
+  "10:1:2": { shortName: "ucurr", name: "U-component of current" },
+  "10:1:3": { shortName: "vcurr", name: "V-component of current" },
+};
+
+// Parameters eccodes prefixes with the height when at 2m or 10m above ground
+const HEIGHT_PREFIXED = new Set(["t", "r", "u", "v"]);
+
+/**
+ * eccodes-style shortName for a field, e.g. "10u" for 10m U wind
+ */
+export function grib2ShortName(field: Grib2Field): string {
+  const { parameterCategory, parameterNumber } = field.product;
+  const key = `${field.discipline}:${parameterCategory}:${parameterNumber}`;
+  const parameter = PARAMETERS[key];
+  if (!parameter) return "unknown";
+
+  const { typeOfFirstFixedSurface, firstFixedSurface } = field.product;
+  if (
+    typeOfFirstFixedSurface === 103 &&
+    (firstFixedSurface === 2 || firstFixedSurface === 10) &&
+    HEIGHT_PREFIXED.has(parameter.shortName)
+  ) {
+    return `${firstFixedSurface}${parameter.shortName}`;
+  }
+  return parameter.shortName;
+}
+
+/**
+ * eccodes-style typeOfLevel and level value for a field
+ */
+export function grib2Level(field: Grib2Field): {
+  typeOfLevel: string;
+  level: number;
+} {
+  const { typeOfFirstFixedSurface: type, firstFixedSurface: value } =
+    field.product;
+  const level = Number.isNaN(value) ? 0 : value;
+
+  switch (type) {
+    case 1:
+      return { typeOfLevel: "surface", level: 0 };
+    case 100:
+      // Isobaric surfaces are encoded in Pa
+      return { typeOfLevel: "isobaricInhPa", level: level / 100 };
+    case 101:
+      return { typeOfLevel: "meanSea", level: 0 };
+    case 102:
+      return { typeOfLevel: "heightAboveSea", level };
+    case 103:
+      return { typeOfLevel: "heightAboveGround", level };
+    default:
+      return { typeOfLevel: `level${type}`, level };
+  }
+}
+
+/**
+ * Hours per unit of time range (code table 4.4)
+ */
+const HOURS_PER_TIME_UNIT: Record<number, number> = {
+  0: 1 / 60, // Minute
+  1: 1, // Hour
+  2: 24, // Day
+  10: 3, // 3 hours
+  11: 6, // 6 hours
+  12: 12, // 12 hours
+  13: 1 / 3600, // Second
+};
+
+/**
+ * Forecast step range in hours. Statistically processed fields (e.g.
+ * accumulations) span their processing interval, like an eccodes
+ * stepRange of "0-6"; other fields start and end at the forecast time.
+ */
+export function grib2StepRange(field: Grib2Field): {
+  startStep: number;
+  endStep: number;
+} {
+  const p = field.product;
+  const startStep =
+    p.forecastTime * (HOURS_PER_TIME_UNIT[p.indicatorOfUnitOfTimeRange] ?? 1);
+  if (p.lengthOfTimeRange === null) {
+    return { startStep, endStep: startStep };
+  }
+  const unit = p.indicatorOfUnitForTimeRange ?? p.indicatorOfUnitOfTimeRange;
+  return {
+    startStep,
+    endStep: startStep + p.lengthOfTimeRange * (HOURS_PER_TIME_UNIT[unit] ?? 1),
+  };
+}
@@ -0,0 +1,417 @@
+/**
+ * GRIB2 Encoder
+ *
+ * Writes GRIB edition 2 messages for fields on regular lat/lon grids,
+ * the counterpart of the decoder in grib2.ts, so cut-down files can be
+ * passed on to other GRIB software. Each message holds one field:
+ * - Grid template 3.0 (regular latitude/longitude), rows north to south
+ * - Product templates 4.0 (forecast), 4.1 (ensemble member), 4.8
+ *   (statistically processed, e.g. accumulations) and 4.11 (both)
+ * - Simple packing (template 5.0), with a bitmap (section 6) when
+ *   points are missing
+ *
+ * Reference: WMO Manual on Codes, FM 92 GRIB edition 2
+ */
+
+/**
+ * Everything written into one message
+ */
+export interface Grib2MessageSpec {
+  discipline: number;
+  centre: number;
+  subCentre: number;
+  // Reference time of the forecast
+  refTime: Date;
+  parameterCategory: number;
+  parameterNumber: number;
+  generatingProcessIdentifier: number;
+  // Fixed surface type (code table 4.5) and value in its SI unit, e.g.
+  // 100 and 85000 for 850 hPa; null for surfaces without a value
+  typeOfFirstFixedSurface: number;
+  firstFixedSurface: number | null;
+  // Forecast step in hours; intervals (e.g. an accumulation "0-6")
+  // start before they end
+  startStep: number;
+  endStep: number;
+  // Code table 4.10 (e.g. 1 for accumulation), for intervals
+  typeOfStatisticalProcessing: number;
+  // Ensemble member, null outside ensembles
+  perturbationNumber: number | null;
+  numberOfForecastsInEnsemble: number;
+  shapeOfTheEarth: number;
+  // Grid in leaflet-velocity terms: la1 is the north edge, lo1 the west
+  // edge, rows run north to south
+  grid: {
+    nx: number;
+    ny: number;
+    la1: number;
+    lo1: number;
+    dx: number;
+    dy: number;
+  };
+  // Values in grid order, NaN (or null) where missing
+  values: ArrayLike<number | null>;
+}
+
+// Precision of packed values: 4,096 steps between a field's minimum and
+// maximum, a few millimetres of wave height or hundredths of a m/s of
+// wind, at three quarters of the size of 16 bits
+const BITS_PER_VALUE = 12;
+
+const MISSING_UINT8 = 0xff;
+const MISSING_UINT32 = 0xffffffff;
+
+// Tables version the parameter and level codes are taken from
+const MASTER_TABLES_VERSION = 4;
+
+/**
+ * Big-endian writer over a growing byte buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  length = 0;
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + count) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  uint(value: number, octets: number): void {
+    this.reserve(octets);
+    for (let i = octets - 1; i >= 0; i--) {
+      this.bytes[this.length + i] = value % 256;
+      value = Math.floor(value / 256);
+    }
+    this.length += octets;
+  }
+
+  /**
+   * GRIB2 signed integers use sign-and-magnitude, not two's complement
+   */
+  int(value: number, octets: number): void {
+    const signBit = Math.pow(2, octets * 8 - 1);
+    this.uint(value < 0 ? signBit - value : value, octets);
+  }
+
+  float32(value: number): void {
+    this.reserve(4);
+    new DataView(this.bytes.buffer).setFloat32(this.length, value);
+    this.length += 4;
+  }
+
+  write(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /**
+   * Overwrite an unsigned integer written earlier, e.g. a length
+   */
+  patch(offset: number, value: number, octets: number): void {
+    const end = this.length;
+    this.length = offset;
+    this.uint(value, octets);
+    this.length = end;
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Sequential big-endian bit writer
+ */
+class BitWriter {
+  readonly bytes: Uint8Array;
+  private bitPosition = 0;
+
+  constructor(bitCount: number) {
+    this.bytes = new Uint8Array(Math.ceil(bitCount / 8));
+  }
+
+  write(value: number, bitCount: number): void {
+    for (let bit = bitCount - 1; bit >= 0; bit--) {
+      if (Math.floor(value / Math.pow(2, bit)) % 2) {
+        this.bytes[this.bitPosition >> 3] |= 0x80 >> (this.bitPosition & 7);
+      }
+      this.bitPosition++;
+    }
+  }
+}
+
+/**
+ * Write a section: its length (patched in once known) and number, then
+ * its content
+ */
+function section(
+  writer: ByteWriter,
+  number: number,
+  content: () => void
+): void {
+  const start = writer.length;
+  writer.uint(0, 4);
+  writer.uint(number, 1);
+  content();
+  writer.patch(start, writer.length - start, 4);
+}
+
+/**
+ * Angle in the micro-degrees of grid template 3.0
+ */
+function microDegrees(degrees: number): number {
+  return Math.round(degrees * 1e6);
+}
+
+function longitude360(lon: number): number {
+  return ((lon % 360) + 360) % 360;
+}
+
+/**
+ * A value as a scale factor and scaled integer (value = scaled / 10^scale)
+ */
+function scaled(value: number): { scale: number; value: number } {
+  let scale = 0;
+  while (scale < 6 && !Number.isInteger(value * Math.pow(10, scale))) {
+    scale++;
+  }
+  return { scale, value: Math.round(value * Math.pow(10, scale)) };
+}
+
+/**
+ * A step in the coarsest time unit that holds it exactly: hours, or
+ * minutes for sub-hourly steps (code table 4.4)
+ */
+function timeUnit(...hours: number[]): { unit: number; perHour: number } {
+  return hours.every(Number.isInteger)
+    ? { unit: 1, perHour: 1 }
+    : { unit: 0, perHour: 60 };
+}
+
+function writeTime(writer: ByteWriter, time: Date): void {
+  writer.uint(time.getUTCFullYear(), 2);
+  writer.uint(time.getUTCMonth() + 1, 1);
+  writer.uint(time.getUTCDate(), 1);
+  writer.uint(time.getUTCHours(), 1);
+  writer.uint(time.getUTCMinutes(), 1);
+  writer.uint(time.getUTCSeconds(), 1);
+}
+
+/**
+ * Simple packing parameters for the valid values: Y = R + X * 2^E with
+ * D = 0, so X fits in BITS_PER_VALUE bits
+ */
+function simplePacking(values: number[]): {
+  reference: number;
+  binaryScale: number;
+  bits: number;
+} {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (!(min < max)) {
+    return {
+      reference: Math.fround(min <= max ? min : 0),
+      binaryScale: 0,
+      bits: 0,
+    };
+  }
+
+  // The reference is stored as a float32, which must not exceed the
+  // minimum
+  let reference = Math.fround(min);
+  if (reference > min) {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, reference);
+    const step = reference > 0 ? -1 : 1;
+    view.setInt32(0, view.getInt32(0) + step);
+    reference = view.getFloat32(0);
+  }
+
+  const range = max - reference;
+  const binaryScale = Math.ceil(
+    Math.log2(range / (Math.pow(2, BITS_PER_VALUE) - 1))
+  );
+  const bits = Math.max(
+    1,
+    Math.ceil(Math.log2(range / Math.pow(2, binaryScale) + 1))
+  );
+  return { reference, binaryScale, bits: Math.min(bits, BITS_PER_VALUE) };
+}
+
+/**
+ * Encode one field as a GRIB2 message
+ */
+export function encodeGrib2Message(spec: Grib2MessageSpec): Uint8Array {
+  const { grid } = spec;
+  const pointCount = grid.nx * grid.ny;
+  const present = new Uint8Array(pointCount);
+  const valid: number[] = [];
+  for (let i = 0; i < pointCount; i++) {
+    const value = spec.values[i] ?? NaN;
+    if (Number.isNaN(value)) continue;
+    present[i] = 1;
+    valid.push(value);
+  }
+  const hasMissing = valid.length < pointCount;
+
+  const ensemble = spec.perturbationNumber !== null;
+  const interval = spec.endStep > spec.startStep;
+  const productTemplate = interval ? (ensemble ? 11 : 8) : ensemble ? 1 : 0;
+  const { unit, perHour } = timeUnit(spec.startStep, spec.endStep);
+  const surface =
+    spec.firstFixedSurface === null
+      ? { scale: MISSING_UINT8, value: MISSING_UINT32 }
+      : scaled(spec.firstFixedSurface);
+  const packing = simplePacking(valid);
+
+  const writer = new ByteWriter();
+
+  // Section 0: indicator, with the total length patched in at the end
+  writer.write(new TextEncoder().encode("GRIB"));
+  writer.uint(0, 2);
+  writer.uint(spec.discipline, 1);
+  writer.uint(2, 1);
+  writer.uint(0, 8);
+
+  // Section 1: identification
+  section(writer, 1, () => {
+    writer.uint(spec.centre, 2);
+    writer.uint(spec.subCentre, 2);
+    writer.uint(MASTER_TABLES_VERSION, 1);
+    writer.uint(0, 1); // Local tables version
+    writer.uint(1, 1); // Reference time is the start of the forecast
+    writeTime(writer, spec.refTime);
+    writer.uint(0, 1); // Operational products
+    writer.uint(ensemble ? 4 : 1, 1); // Perturbed or plain forecast
+  });
+
+  // Section 3: grid definition, template 3.0
+  section(writer, 3, () => {
+    writer.uint(0, 1); // Grid defined by template
+    writer.uint(pointCount, 4);
+    writer.uint(0, 1); // No list of points per row
+    writer.uint(0, 1);
+    writer.uint(0, 2); // Template 3.0
+    writer.uint(spec.shapeOfTheEarth, 1);
+    writer.uint(MISSING_UINT8, 1); // Earth radius and axes unused
+    writer.uint(MISSING_UINT32, 4);
+    writer.uint(MISSING_UINT8, 1);
+    writer.uint(MISSING_UINT32, 4);
+    writer.uint(MISSING_UINT8, 1);
+    writer.uint(MISSING_UINT32, 4);
+    writer.uint(grid.nx, 4);
+    writer.uint(grid.ny, 4);
+    writer.uint(0, 4); // Angles in micro-degrees
+    writer.uint(MISSING_UINT32, 4);
+    writer.int(microDegrees(grid.la1), 4);
+    writer.int(microDegrees(longitude360(grid.lo1)), 4);
+    // Increments given; U/V relative to east and north
+    writer.uint(0x30, 1);
+    writer.int(microDegrees(grid.la1 - (grid.ny - 1) * grid.dy), 4);
+    writer.int(
+      microDegrees(longitude360(grid.lo1 + (grid.nx - 1) * grid.dx)),
+      4
+    );
+    writer.uint(microDegrees(grid.dx), 4);
+    writer.uint(microDegrees(grid.dy), 4);
+    // Points west to east, rows north to south
+    writer.uint(0, 1);
+  });
+
+  // Section 4: product definition
+  section(writer, 4, () => {
+    writer.uint(0, 2); // No coordinate values
+    writer.uint(productTemplate, 2);
+    writer.uint(spec.parameterCategory, 1);
+    writer.uint(spec.parameterNumber, 1);
+    writer.uint(ensemble ? 4 : 2, 1); // Ensemble or plain forecast
+    writer.uint(0, 1); // Background process
+    writer.uint(spec.generatingProcessIdentifier, 1);
+    writer.uint(0, 2); // Data cut-off
+    writer.uint(0, 1);
+    writer.uint(unit, 1);
+    writer.int(Math.round(spec.startStep * perHour), 4);
+    writer.uint(spec.typeOfFirstFixedSurface, 1);
+    writer.uint(surface.scale, 1);
+    writer.int(surface.value, 4);
+    writer.uint(MISSING_UINT8, 1); // No second surface
+    writer.uint(MISSING_UINT8, 1);
+    writer.uint(MISSING_UINT32, 4);
+
+    if (ensemble) {
+      // Positively perturbed, or the control for member 0
+      writer.uint(spec.perturbationNumber === 0 ? 1 : 3, 1);
+      writer.uint(spec.perturbationNumber!, 1);
+      writer.uint(spec.numberOfForecastsInEnsemble, 1);
+    }
+
+    if (interval) {
+      const end = new Date(
+        spec.refTime.getTime() + spec.endStep * 60 * 60 * 1000
+      );
+      writeTime(writer, end);
+      writer.uint(1, 1); // One time range
+      writer.uint(0, 4); // No missing values in it
+      writer.uint(spec.typeOfStatisticalProcessing, 1);
+      writer.uint(2, 1); // Successive forecasts, same reference time
+      writer.uint(unit, 1);
+      writer.uint(Math.round((spec.endStep - spec.startStep) * perHour), 4);
+      writer.uint(MISSING_UINT8, 1); // Continuous processing
+      writer.uint(0, 4);
+    }
+  });
+
+  // Section 5: data representation, template 5.0
+  section(writer, 5, () => {
+    writer.uint(valid.length, 4);
+    writer.uint(0, 2);
+    writer.float32(packing.reference);
+    writer.int(packing.binaryScale, 2);
+    writer.int(0, 2); // Decimal scale
+    writer.uint(packing.bits, 1);
+    writer.uint(0, 1); // Original values were floating point
+  });
+
+  // Section 6: bitmap of the valid points, if any are missing
+  section(writer, 6, () => {
+    if (!hasMissing) {
+      writer.uint(MISSING_UINT8, 1);
+      return;
+    }
+    writer.uint(0, 1);
+    const bitmap = new BitWriter(pointCount);
+    for (let i = 0; i < pointCount; i++) {
+      bitmap.write(present[i], 1);
+    }
+    writer.write(bitmap.bytes);
+  });
+
+  // Section 7: packed values
+  section(writer, 7, () => {
+    if (packing.bits === 0) return;
+    const data = new BitWriter(valid.length * packing.bits);
+    const scale = Math.pow(2, -packing.binaryScale);
+    const largest = Math.pow(2, packing.bits) - 1;
+    for (const value of valid) {
+      const code = Math.round((value - packing.reference) * scale);
+      data.write(Math.min(largest, Math.max(0, code)), packing.bits);
+    }
+    writer.write(data.bytes);
+  });
+
+  // Section 8: end
+  writer.write(new TextEncoder().encode("7777"));
+
+  writer.patch(8, 0, 4);
+  writer.patch(12, writer.length, 4);
+  return writer.toBytes();
+}
@@ -0,0 +1,169 @@
+/**
+ * Parse Job Queue
+ *
+ * Uploads are parsed as jobs in a bounded in-process queue: at most
+ * MAX_CONCURRENT_PARSES run at once (parsing large files takes a lot of
+ * memory) and up to MAX_QUEUED_JOBS wait their turn. Clients submit a
+ * file, get a job id and queue position back, and poll the job's status
+ * until its result is ready, or follow it as it changes (see submitJob).
+ */
+
+export type JobStatus = "queued" | "running" | "done" | "failed";
+
+export interface JobState {
+  id: string;
+  status: JobStatus;
+  // Place in the queue, 1 for next to run (0 once running)
+  position: number;
+  // Result once done, kept small (e.g. the parse cache key of a
+  // dataset rather than the dataset), unless the task kept none
+  result?: string;
+  error?: string;
+}
+
+interface Job {
+  id: string;
+  status: JobStatus;
+  task: () => Promise<string | undefined>;
+  onChange?: (state: JobState) => void;
+  result?: string;
+  error?: string;
+  finishedAt?: number;
+}
+
+// Parses running at once, to prevent OOM from burst uploads
+const MAX_CONCURRENT_PARSES = 2;
+
+// Jobs waiting for a slot; more are turned away
+const MAX_QUEUED_JOBS = 20;
+
+// Finished jobs are kept this long for clients to collect their result
+const JOB_RETENTION_MS = 5 * 60 * 1000;
+
+const jobs = new Map<string, Job>();
+const queue: Job[] = [];
+let running = 0;
+
+/**
+ * Queue a task, returning its job id and position, or null when the
+ * queue is full. `onChange` hears about the job moving up the queue,
+ * starting and finishing.
+ */
+export function submitJob(
+  task: () => Promise<string | undefined>,
+  onChange?: (state: JobState) => void
+): JobState | null {
+  removeFinishedJobs();
+  if (queue.length >= MAX_QUEUED_JOBS) return null;
+
+  const job: Job = {
+    id: crypto.randomUUID(),
+    status: "queued",
+    task,
+    onChange,
+  };
+  jobs.set(job.id, job);
+  queue.push(job);
+  startJobs();
+  return describe(job);
+}
+
+/**
+ * Queue a task and wait for its result, or null when the queue is full.
+ * For requests that answer with the result rather than a job id; the
+ * result stays with the caller, so it need not be a string.
+ */
+export function runJob<T>(task: () => Promise<T>): Promise<T> | null {
+  let value: T;
+  let settle!: {
+    resolve: (result: T) => void;
+    reject: (error: Error) => void;
+  };
+  const result = new Promise<T>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  const job = submitJob(
+    async () => {
+      value = await task();
+      return undefined;
+    },
+    (state) => {
+      if (state.status === "done") settle.resolve(value);
+      else if (state.status === "failed") {
+        settle.reject(new Error(state.error ?? "Job failed"));
+      }
+    }
+  );
+  return job ? result : null;
+}
+
+/**
+ * Current state of a job, or null if unknown or expired
+ */
+export function getJob(id: string): JobState | null {
+  removeFinishedJobs();
+  const job = jobs.get(id);
+  return job ? describe(job) : null;
+}
+
+function describe(job: Job): JobState {
+  return {
+    id: job.id,
+    status: job.status,
+    position: job.status === "queued" ? queue.indexOf(job) + 1 : 0,
+    result: job.result,
+    error: job.error,
+  };
+}
+
+function notify(job: Job): void {
+  try {
+    job.onChange?.(describe(job));
+  } catch (error) {
+    console.error(`Job ${job.id} listener failed:`, error);
+  }
+}
+
+/**
+ * Run queued jobs while slots are free
+ */
+function startJobs(): void {
+  let started = false;
+  while (running < MAX_CONCURRENT_PARSES && queue.length > 0) {
+    const job = queue.shift()!;
+    job.status = "running";
+    running++;
+    started = true;
+    notify(job);
+
+    job
+      .task()
+      .then((result) => {
+        job.status = "done";
+        job.result = result;
+      })
+      .catch((error) => {
+        console.error(`Job ${job.id} failed:`, error);
+        job.status = "failed";
+        job.error = error instanceof Error ? error.message : "Job failed";
+      })
+      .finally(() => {
+        job.finishedAt = Date.now();
+        running--;
+        notify(job);
+        startJobs();
+      });
+  }
+
+  // The jobs still waiting moved up
+  if (started) queue.forEach(notify);
+}
+
+function removeFinishedJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, job] of jobs) {
+    if (job.finishedAt !== undefined && job.finishedAt < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
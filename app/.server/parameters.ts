@@ -0,0 +1,294 @@
+/**
+ * Parameter Catalogue
+ *
+ * Describes the GRIB parameters the viewer knows about, keyed by the
+ * eccodes shortName reported by grib_ls and the built-in decoders.
+ * Parameters that are components of a vector (U/V) name the vector
+ * parameter they belong to, so the parser can pair them.
+ */
+
+export interface ParameterInfo {
+  // Display name for the field picker
+  name: string;
+  // GRIB2 code table 4.2 identification, used in velocity headers
+  discipline: number;
+  parameterCategory: number;
+  parameterNumber: number;
+  gribName: string;
+  units: string;
+  vector?: { parameter: string; component: "u" | "v" };
+  // Accumulated parameters are split into per-interval amounts, plus a
+  // rate field under this parameter (e.g. "tprate" for "tp")
+  rate?: string;
+  // Direction parameters drawn as arrows over this field, in order of
+  // preference (e.g. primary wave direction over wave height)
+  direction?: string[];
+}
+
+export interface VectorParameterInfo {
+  name: string;
+  units: string;
+}
+
+const U_WIND: ParameterInfo = {
+  name: "U wind",
+  discipline: 0,
+  parameterCategory: 2,
+  parameterNumber: 2,
+  gribName: "U-component_of_wind",
+  units: "m.s-1",
+  vector: { parameter: "wind", component: "u" },
+};
+
+const V_WIND: ParameterInfo = {
+  name: "V wind",
+  discipline: 0,
+  parameterCategory: 2,
+  parameterNumber: 3,
+  gribName: "V-component_of_wind",
+  units: "m.s-1",
+  vector: { parameter: "wind", component: "v" },
+};
+
+const U_CURRENT: ParameterInfo = {
+  name: "U current",
+  discipline: 10,
+  parameterCategory: 1,
+  parameterNumber: 2,
+  gribName: "U-component_of_current",
+  units: "m.s-1",
+  vector: { parameter: "current", component: "u" },
+};
+
+const V_CURRENT: ParameterInfo = {
+  name: "V current",
+  discipline: 10,
+  parameterCategory: 1,
+  parameterNumber: 3,
+  gribName: "V-component_of_current",
+  units: "m.s-1",
+  vector: { parameter: "current", component: "v" },
+};
+
+const GUST: ParameterInfo = {
+  name: "Wind gusts",
+  discipline: 0,
+  parameterCategory: 2,
+  parameterNumber: 22,
+  gribName: "Wind_speed_gust",
+  units: "m.s-1",
+};
+
+const MSL_PRESSURE: ParameterInfo = {
+  name: "Pressure (MSL)",
+  discipline: 0,
+  parameterCategory: 3,
+  parameterNumber: 1,
+  gribName: "Pressure_reduced_to_MSL",
+  units: "Pa",
+};
+
+const TEMPERATURE: ParameterInfo = {
+  name: "Temperature",
+  discipline: 0,
+  parameterCategory: 0,
+  parameterNumber: 0,
+  gribName: "Temperature",
+  units: "K",
+};
+
+const RELATIVE_HUMIDITY: ParameterInfo = {
+  name: "Relative humidity",
+  discipline: 0,
+  parameterCategory: 1,
+  parameterNumber: 1,
+  gribName: "Relative_humidity",
+  units: "%",
+};
+
+const PRIMARY_WAVE_DIRECTION = ["dirpw", "mwd"];
+const WIND_WAVE_DIRECTION = ["wvdir", "mdww"];
+const SWELL_DIRECTION = ["swdir", "mdts"];
+
+function waveParameter(
+  name: string,
+  parameterNumber: number,
+  gribName: string,
+  units: string,
+  direction: string[]
+): ParameterInfo {
+  return {
+    name,
+    discipline: 10,
+    parameterCategory: 0,
+    parameterNumber,
+    gribName,
+    units,
+    direction,
+  };
+}
+
+const WIND_WAVE_DIRECTION_INFO = waveParameter(
+  "Wind wave direction",
+  4,
+  "Direction_of_wind_waves",
+  "Degree true",
+  WIND_WAVE_DIRECTION
+);
+
+const SWELL_DIRECTION_INFO = waveParameter(
+  "Swell direction",
+  7,
+  "Direction_of_swell_waves",
+  "Degree true",
+  SWELL_DIRECTION
+);
+
+export const PARAMETERS: Record<string, ParameterInfo> = {
+  "10u": U_WIND,
+  u: U_WIND,
+  "10v": V_WIND,
+  v: V_WIND,
+  ucurr: U_CURRENT,
+  vcurr: V_CURRENT,
+  gust: GUST,
+  i10fg: GUST,
+  prmsl: MSL_PRESSURE,
+  msl: MSL_PRESSURE,
+  sp: {
+    name: "Surface pressure",
+    discipline: 0,
+    parameterCategory: 3,
+    parameterNumber: 0,
+    gribName: "Pressure",
+    units: "Pa",
+  },
+  "2t": TEMPERATURE,
+  t: TEMPERATURE,
+  "2r": RELATIVE_HUMIDITY,
+  r: RELATIVE_HUMIDITY,
+  tp: {
+    name: "Precipitation",
+    discipline: 0,
+    parameterCategory: 1,
+    parameterNumber: 8,
+    gribName: "Total_precipitation",
+    units: "kg.m-2",
+    rate: "tprate",
+  },
+  tprate: {
+    name: "Precipitation rate",
+    discipline: 0,
+    parameterCategory: 1,
+    parameterNumber: 52,
+    gribName: "Total_precipitation_rate",
+    units: "kg.m-2.h-1",
+  },
+  gh: {
+    name: "Geopotential height",
+    discipline: 0,
+    parameterCategory: 3,
+    parameterNumber: 5,
+    gribName: "Geopotential_height",
+    units: "gpm",
+  },
+  swh: waveParameter(
+    "Wave height",
+    3,
+    "Significant_height_of_combined_wind_waves_and_swell",
+    "m",
+    PRIMARY_WAVE_DIRECTION
+  ),
+  shww: waveParameter(
+    "Wind wave height",
+    5,
+    "Significant_height_of_wind_waves",
+    "m",
+    WIND_WAVE_DIRECTION
+  ),
+  shts: waveParameter(
+    "Swell height",
+    8,
+    "Significant_height_of_swell_waves",
+    "m",
+    SWELL_DIRECTION
+  ),
+  perpw: waveParameter(
+    "Primary wave period",
+    11,
+    "Primary_wave_mean_period",
+    "s",
+    PRIMARY_WAVE_DIRECTION
+  ),
+  mwp: waveParameter(
+    "Mean wave period",
+    15,
+    "Mean_period_of_combined_wind_waves_and_swell",
+    "s",
+    PRIMARY_WAVE_DIRECTION
+  ),
+  mpww: waveParameter(
+    "Wind wave period",
+    6,
+    "Mean_period_of_wind_waves",
+    "s",
+    WIND_WAVE_DIRECTION
+  ),
+  mpts: waveParameter(
+    "Swell period",
+    9,
+    "Mean_period_of_swell_waves",
+    "s",
+    SWELL_DIRECTION
+  ),
+  dirpw: waveParameter(
+    "Primary wave direction",
+    10,
+    "Primary_wave_direction",
+    "Degree true",
+    PRIMARY_WAVE_DIRECTION
+  ),
+  mwd: waveParameter(
+    "Mean wave direction",
+    14,
+    "Direction_of_combined_wind_waves_and_swell",
+    "Degree true",
+    PRIMARY_WAVE_DIRECTION
+  ),
+  wvdir: WIND_WAVE_DIRECTION_INFO,
+  mdww: WIND_WAVE_DIRECTION_INFO,
+  swdir: SWELL_DIRECTION_INFO,
+  mdts: SWELL_DIRECTION_INFO,
+};
+
+export const VECTOR_PARAMETERS: Record<string, VectorParameterInfo> = {
+  wind: { name: "Wind", units: "m.s-1" },
+  current: { name: "Current", units: "m.s-1" },
+};
+
+// GRIB2 code table 4.1 names, keyed by "discipline:category"
+export const CATEGORY_NAMES: Record<string, string> = {
+  "0:0": "Temperature",
+  "0:1": "Moisture",
+  "0:2": "Momentum",
+  "0:3": "Mass",
+  "10:0": "Waves",
+  "10:1": "Currents",
+};
+
+/**
+ * Look up a parameter, falling back to a generic description for
+ * shortNames not in the catalogue
+ */
+export function getParameterInfo(shortName: string): ParameterInfo {
+  return (
+    PARAMETERS[shortName] ?? {
+      name: shortName,
+      discipline: 255,
+      parameterCategory: 255,
+      parameterNumber: 255,
+      gribName: shortName,
+      units: "",
+    }
+  );
+}
@@ -1,18 +1,87 @@
 /**
  * GRIB Parser Service
  *
- * Converts GRIB2 files to the JSON format expected by leaflet-velocity
- * using eccodes CLI tools (grib_get_data, grib_ls).
+ * Converts GRIB1/GRIB2 files to the JSON format expected by leaflet-velocity.
+ * Values are decoded from the binary data sections straight into typed
+ * arrays; the eccodes CLI tools (grib_ls, grib_set), when installed,
+ * provide the inventory and repack files the decoders cannot read.
  *
  * Supports multi-time-step GRIB files (e.g., Saildocs downloads with
- * multiple forecast hours in a single file).
+ * multiple forecast hours in a single file) and ensemble forecasts, with
+ * each member kept alongside derived mean, spread and probability
+ * fields.
  *
- * Install: brew install eccodes
+ * Install (optional): brew install eccodes
  */
 
-import { writeFile, unlink, mkdir } from "fs/promises";
+import { writeFile, unlink, mkdir, readFile } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
+import {
+  scanGrib2,
+  unpackGrib2Field,
+  isGrib2PackingSupported,
+  orderNorthToSouth,
+  grib2ShortName,
+  grib2Level,
+  grib2StepRange,
+  type Grib2Field,
+} from "./grib2";
+import {
+  scanGrib1,
+  unpackGrib1Field,
+  isGrib1PackingSupported,
+  grib1ShortName,
+  grib1Level,
+  grib1StepRange,
+  grib1StatisticalProcessing,
+  type Grib1Field,
+} from "./grib1";
+import { ensembleWindFields } from "./ensemble";
+import { encodeGrib2Message } from "./grib2Writer";
+import {
+  hasGridSubset,
+  subsetScalar,
+  subsetVector,
+  type GridSubset,
+} from "./subset";
+import {
+  PARAMETERS,
+  VECTOR_PARAMETERS,
+  CATEGORY_NAMES,
+  getParameterInfo,
+  type ParameterInfo,
+} from "./parameters";
+import { normalizeLongitude } from "../lib/regions";
+import {
+  checkGribMessages,
+  type MessageOrigin,
+  type SkippedMessage,
+} from "../lib/gribCheck";
+import { emptyDataset, mergeDatasetStep } from "../lib/dataset";
+import {
+  projectedTargetGrid,
+  resampleToLatLon,
+  rotateToEarth,
+  type GridProjection,
+} from "./projections";
+import {
+  defaultGaussianResolution,
+  gaussianRows,
+  gaussianTargetGrid,
+  resampleRows,
+} from "./gaussian";
+import {
+  GRIB1_GRID_TEMPLATES,
+  centreName,
+  disciplineName,
+  gridTemplateName,
+  levelType,
+  modelName,
+} from "./tables";
+
+// Bump when parsed output changes, so cached datasets are not reused
+export const PARSER_VERSION = 7;
 
 /**
  * Velocity data format expected by leaflet-velocity
@@ -23,6 +92,9 @@ export interface VelocityHeader {
   gribEdition: number;
   center: number;
   centerName: string;
+  subCenter: number;
+  generatingProcessIdentifier: number;
+  modelName: string;
   refTime: string;
   parameterCategory: number;
   parameterCategoryName: string;
@@ -49,7 +121,9 @@ export interface VelocityHeader {
 
 export interface VelocityComponent {
   header: VelocityHeader;
-  data: number[];
+  // Typed on the server; a plain array once sent as JSON. Missing points
+  // are NaN on the server and null in JSON, never zero.
+  data: Float32Array | (number | null)[];
 }
 
 // Single time step: [U, V] components
@@ -67,6 +141,136 @@ export interface MultiTimeVelocityData {
   refTime: string;
 }
 
+/**
+ * Multi-parameter dataset: every decodable field in a file, keyed by
+ * parameter and level, on a time axis shared by all fields
+ */
+export interface DatasetTimeStep {
+  forecastHour: number;
+  validTime: string;
+}
+
+interface DatasetFieldBase {
+  // Unique key, e.g. "wind:heightAboveGround:10" or "prmsl:meanSea:0"
+  id: string;
+  // eccodes shortName for scalars, vector name (e.g. "wind") for vectors
+  parameter: string;
+  name: string;
+  units: string;
+  typeOfLevel: string;
+  level: number;
+}
+
+/**
+ * One member of an ensemble forecast, e.g. GEFS or ECMWF ENS
+ */
+export interface EnsembleMember<T> {
+  // 0 is usually the control forecast
+  perturbationNumber: number;
+  // Aligned with GribDataset.timeSteps; null where the file has no data
+  steps: (T | null)[];
+}
+
+export interface ScalarField extends DatasetFieldBase {
+  kind: "scalar";
+  // Field whose values (degrees, direction coming from) are drawn as
+  // arrows over this one, e.g. wave direction over wave height
+  directionFieldId?: string;
+  // Aligned with GribDataset.timeSteps; null where the file has no data.
+  // For ensembles, the first member's steps.
+  steps: (VelocityComponent | null)[];
+  // Every member, in perturbation number order, when the file holds an
+  // ensemble
+  members?: EnsembleMember<VelocityComponent>[];
+}
+
+export interface VectorField extends DatasetFieldBase {
+  kind: "vector";
+  // Aligned with GribDataset.timeSteps; null where the file has no data.
+  // For ensembles, the first member's steps.
+  steps: (VelocityData | null)[];
+  members?: EnsembleMember<VelocityData>[];
+}
+
+export type DatasetField = ScalarField | VectorField;
+
+export interface GribDataset {
+  refTime: string;
+  timeSteps: DatasetTimeStep[];
+  fields: DatasetField[];
+  // Messages left out of the file, when there were any
+  skippedMessages?: SkippedMessage[];
+}
+
+/**
+ * Progress of a parse: the time axis once the inventory is read, then
+ * each time step's fields as soon as they are decoded (only that step
+ * is filled in, see mergeDatasetStep)
+ */
+export type ParseProgress =
+  | {
+      type: "inventory";
+      refTime: string;
+      timeSteps: DatasetTimeStep[];
+      messageCount: number;
+      skippedMessages: SkippedMessage[];
+    }
+  | { type: "step"; index: number; total: number; fields: DatasetField[] };
+
+/**
+ * Options for parsing a GRIB file
+ */
+export interface ParseOptions extends GridSubset {
+  // Spacing in degrees of the lat/lon grid that Gaussian grids are
+  // interpolated onto; defaults to about their native spacing
+  gaussianResolution?: number;
+  // Forecast hours to keep, inclusive; the whole file by default
+  fromHour?: number;
+  toHour?: number;
+  // Fields and steps picked from the inventory (see inspectGribBuffer),
+  // every one by default: field parameters (e.g. "wind" or "prmsl"),
+  // levels as "typeOfLevel:level" and forecast hours
+  parameters?: string[];
+  levels?: string[];
+  forecastHours?: number[];
+}
+
+/**
+ * One message of a GRIB file, as listed by inspectGribBuffer
+ */
+export interface InventoryMessage {
+  messageNumber: number;
+  // eccodes shortName, "unknown" where the decoders cannot name it
+  shortName: string;
+  name: string;
+  units: string;
+  // Field parameter the message is decoded into (e.g. "wind" for U and
+  // V) and its display name, null when it cannot be decoded
+  parameter: string | null;
+  parameterName: string | null;
+  typeOfLevel: string;
+  level: number;
+  // End of the step range, and its start for accumulations
+  forecastHour: number;
+  startStep: number;
+  perturbationNumber: number | null;
+  edition: number;
+  centre: number;
+  centreName: string;
+  // Grid the message is read onto (projected and Gaussian grids are
+  // resampled to lat/lon)
+  grid: GridGeometry & { template: number; templateName: string };
+  // Bytes the message takes in the file
+  size: number;
+}
+
+export interface GribInventory {
+  refTime: string;
+  messages: InventoryMessage[];
+  // Damaged messages and messages on unsupported grids, not listed
+  skippedMessages: SkippedMessage[];
+}
+
 // Cached result for eccodes availability check
 let eccodesAvailable: boolean | null = null;
 
@@ -94,9 +298,23 @@ export async function checkEccodes(): Promise<boolean> {
 export const checkWgrib2 = checkEccodes;
 
 interface GribMessage {
+  edition: number;
+  discipline: number;
+  centre: number;
+  subCentre: number;
+  generatingProcessIdentifier: number;
+  // GRIB2 grid template number (GRIB1 grids are mapped to their equivalent)
+  gridDefinitionTemplateNumber: number;
+  shapeOfTheEarth: number;
+  // Units reported by eccodes; the built-in decoders use the catalogue
+  units?: string;
   shortName: string;
   level: number;
   typeOfLevel: string;
+  // The level as GRIB2 writes it (code table 4.5, value in its SI unit
+  // or null where missing), kept for writing subsets
+  typeOfFirstFixedSurface: number;
+  firstFixedSurface: number | null;
   Ni: number;
   Nj: number;
   latitudeOfFirstGridPoint: number;
@@ -105,20 +323,70 @@ interface GribMessage {
   longitudeOfLastGridPoint: number;
   iDirectionIncrement: number;
   jDirectionIncrement: number;
+  scanningMode: number;
+  // Rotated and Lambert grids, resampled to regular lat/lon when read
+  projection: GridProjection | null;
+  // U/V along the grid's x/y axes rather than east/north
+  uvRelativeToGrid: boolean;
+  // Gaussian grids, interpolated to regular lat/lon when read
+  gaussian: { N: number; resolution: number } | null;
   dataDate: number;
   dataTime: number;
-  stepRange: number; // Forecast hour (e.g., 0, 6, 12, 24)
+  // Forecast hour (e.g., 0, 6, 12, 24, or 0.25 for 15 minutes), end of
+  // any range
+  stepRange: number;
+  startStep: number; // Start of the range, e.g. 0 for an accumulation "0-6"
+  // How intervals are processed (code table 4.10, e.g. 1 for an
+  // accumulation), null where the message does not say
+  typeOfStatisticalProcessing: number | null;
+  // When the message is valid (YYYYMMDD, HHMM), where it says so;
+  // otherwise the reference time plus the step
+  validityDate: number | null;
+  validityTime: number | null;
+  // Ensemble member (0 is usually the control), null outside ensembles
+  perturbationNumber: number | null;
   messageNumber: number;
+  // Byte offset of the message in the file
+  offset: number;
+  // Bytes the message takes in the file
+  size: number;
+}
+
+/**
+ * An opened GRIB file: the message inventory plus a reader that decodes
+ * messages' values on the leaflet-velocity grid (north to south rows)
+ * in one pass over the file
+ */
+interface GribSource {
+  messages: GribMessage[];
+  readMessages(messages: GribMessage[]): Map<GribMessage, Float32Array>;
+  // Messages left out, damaged or on grids that cannot be read
+  skipped: SkippedMessage[];
 }
 
 /**
  * Get GRIB metadata using grib_ls
  */
-async function getGribMetadata(gribPath: string): Promise<GribMessage[]> {
+async function getGribMetadata(
+  gribPath: string,
+  options: ParseOptions
+): Promise<GribMessage[]> {
   const keys = [
+    "edition",
+    "discipline",
+    "centre:l",
+    "subCentre",
+    "generatingProcessIdentifier",
+    "gridDefinitionTemplateNumber",
+    "dataRepresentationType",
+    "shapeOfTheEarth",
+    "units",
     "shortName",
     "level",
     "typeOfLevel",
+    "typeOfFirstFixedSurface",
+    "scaleFactorOfFirstFixedSurface",
+    "scaledValueOfFirstFixedSurface",
     "Ni",
     "Nj",
     "latitudeOfFirstGridPointInDegrees",
@@ -127,9 +395,33 @@ async function getGribMetadata(gribPath: string): Promise<GribMessage[]> {
     "longitudeOfLastGridPointInDegrees",
     "iDirectionIncrementInDegrees",
     "jDirectionIncrementInDegrees",
+    "iScansNegatively",
+    "jScansPositively",
+    "jPointsAreConsecutive",
+    "alternativeRowScanning",
+    "uvRelativeToGrid",
+    "gridType",
+    "latitudeOfSouthernPoleInDegrees",
+    "longitudeOfSouthernPoleInDegrees",
+    "LaDInDegrees",
+    "LoVInDegrees",
+    "Latin1InDegrees",
+    "Latin2InDegrees",
+    "DxInMetres",
+    "DyInMetres",
+    "radius",
+    "N",
+    "offset",
     "dataDate",
     "dataTime",
-    "stepRange", // Forecast hour
+    "stepRange", // Forecast step, in stepUnits unless suffixed
+    "stepUnits:i",
+    "typeOfStatisticalProcessing",
+    "timeRangeIndicator",
+    "validityDate",
+    "validityTime",
+    "perturbationNumber",
+    "totalLength",
   ].join(",");
 
   const proc = Bun.spawn(["grib_ls", "-p", keys, "-j", gribPath], {
@@ -148,22 +440,69 @@ async function getGribMetadata(gribPath: string): Promise<GribMessage[]> {
   try {
     const result = JSON.parse(output);
     return result.messages.map((msg: Record<string, unknown>, idx: number) => ({
+      edition: msg.edition as number,
+      // Keys missing from an edition (e.g. GRIB1 discipline) come back as
+      // "not_found"
+      discipline: numericKey(
+        msg.discipline,
+        PARAMETERS[msg.shortName as string]?.discipline ?? 0
+      ),
+      centre: numericKey(msg["centre:l"] ?? msg.centre, 255),
+      subCentre: numericKey(msg.subCentre, 0),
+      generatingProcessIdentifier: numericKey(
+        msg.generatingProcessIdentifier,
+        255
+      ),
+      gridDefinitionTemplateNumber:
+        msg.edition === 1
+          ? (GRIB1_GRID_TEMPLATES[numericKey(msg.dataRepresentationType, 0)] ??
+            255)
+          : numericKey(msg.gridDefinitionTemplateNumber, 255),
+      shapeOfTheEarth: numericKey(msg.shapeOfTheEarth, 0),
+      units:
+        typeof msg.units === "string" && msg.units !== "not_found"
+          ? msg.units
+          : undefined,
       shortName: msg.shortName as string,
       level: msg.level as number,
       typeOfLevel: msg.typeOfLevel as string,
-      Ni: msg.Ni as number,
+      ...(msg.edition === 1
+        ? namedSurface(msg.typeOfLevel as string, msg.level as number)
+        : eccodesSurface(msg)),
+      // Reduced Gaussian grids have no fixed row length
+      Ni: numericKey(msg.Ni, 0),
       Nj: msg.Nj as number,
       latitudeOfFirstGridPoint: msg.latitudeOfFirstGridPointInDegrees as number,
       longitudeOfFirstGridPoint:
         msg.longitudeOfFirstGridPointInDegrees as number,
       latitudeOfLastGridPoint: msg.latitudeOfLastGridPointInDegrees as number,
       longitudeOfLastGridPoint: msg.longitudeOfLastGridPointInDegrees as number,
-      iDirectionIncrement: msg.iDirectionIncrementInDegrees as number,
+      iDirectionIncrement: numericKey(msg.iDirectionIncrementInDegrees, 0),
       jDirectionIncrement: msg.jDirectionIncrementInDegrees as number,
+      scanningMode:
+        (numericKey(msg.iScansNegatively, 0) ? 0x80 : 0) |
+        (numericKey(msg.jScansPositively, 0) ? 0x40 : 0) |
+        (numericKey(msg.jPointsAreConsecutive, 0) ? 0x20 : 0) |
+        (numericKey(msg.alternativeRowScanning, 0) ? 0x10 : 0),
+      projection: eccodesProjection(msg),
+      uvRelativeToGrid: numericKey(msg.uvRelativeToGrid, 0) === 1,
+      gaussian:
+        msg.gridType === "regular_gg" || msg.gridType === "reduced_gg"
+          ? gaussianGrid(numericKey(msg.N, 0), options)
+          : null,
       dataDate: msg.dataDate as number,
       dataTime: msg.dataTime as number,
-      stepRange: parseStepRange(msg.stepRange),
+      ...parseStepRange(msg.stepRange, numericKey(msg["stepUnits:i"], 1)),
+      typeOfStatisticalProcessing:
+        msg.edition === 1
+          ? grib1StatisticalProcessing(numericKey(msg.timeRangeIndicator, 0))
+          : numericKey(msg.typeOfStatisticalProcessing, null),
+      validityDate: numericKey(msg.validityDate, null),
+      validityTime: numericKey(msg.validityTime, null),
+      perturbationNumber: numericKey(msg.perturbationNumber, null),
       messageNumber: idx + 1,
+      offset: numericKey(msg.offset, -1),
+      size: numericKey(msg.totalLength, 0),
     }));
   } catch (e) {
     throw new Error(`Failed to parse grib_ls output: ${e}`);
@@ -171,154 +510,599 @@ async function getGribMetadata(gribPath: string): Promise<GribMessage[]> {
 }
 
 /**
- * Parse stepRange which can be a number or a string like "0-6"
+ * Gaussian grid description with the target resolution to use
+ */
+function gaussianGrid(
+  N: number,
+  options: ParseOptions
+): { N: number; resolution: number } {
+  return {
+    N,
+    resolution: options.gaussianResolution ?? defaultGaussianResolution(N),
+  };
+}
+
+/**
+ * Projection of a rotated or Lambert grid from grib_ls keys, or null
+ * for other grid types
  */
-function parseStepRange(stepRange: unknown): number {
+function eccodesProjection(
+  msg: Record<string, unknown>
+): GridProjection | null {
+  if (msg.gridType === "rotated_ll") {
+    return {
+      type: "rotated",
+      southPoleLat: numericKey(msg.latitudeOfSouthernPoleInDegrees, -90),
+      southPoleLon: numericKey(msg.longitudeOfSouthernPoleInDegrees, 0),
+    };
+  }
+  if (msg.gridType === "lambert") {
+    const Latin1 = numericKey(msg.Latin1InDegrees, 0);
+    return {
+      type: "lambert",
+      LaD: numericKey(msg.LaDInDegrees, Latin1),
+      LoV: numericKey(msg.LoVInDegrees, 0),
+      Latin1,
+      Latin2: numericKey(msg.Latin2InDegrees, Latin1),
+      Dx: numericKey(msg.DxInMetres, 0),
+      Dy: numericKey(msg.DyInMetres, 0),
+      earthRadius: numericKey(msg.radius, 6371229),
+    };
+  }
+  return null;
+}
+
+/**
+ * GRIB2 level keys from grib_ls; a missing value comes back as "MISSING"
+ */
+function eccodesSurface(msg: Record<string, unknown>): {
+  typeOfFirstFixedSurface: number;
+  firstFixedSurface: number | null;
+} {
+  const scale = numericKey(msg.scaleFactorOfFirstFixedSurface, null);
+  const value = numericKey(msg.scaledValueOfFirstFixedSurface, null);
+  return {
+    typeOfFirstFixedSurface: numericKey(msg.typeOfFirstFixedSurface, 255),
+    firstFixedSurface:
+      scale === null || value === null ? null : value / Math.pow(10, scale),
+  };
+}
+
+/**
+ * GRIB2 level for a message that only names its level type (GRIB1),
+ * as in the velocity header
+ */
+function namedSurface(
+  typeOfLevel: string,
+  level: number
+): { typeOfFirstFixedSurface: number; firstFixedSurface: number } {
+  return {
+    typeOfFirstFixedSurface: levelType(typeOfLevel).code,
+    firstFixedSurface: typeOfLevel === "isobaricInhPa" ? level * 100 : level,
+  };
+}
+
+/**
+ * Read a numeric grib_ls key, falling back when it is absent
+ */
+function numericKey<T extends number | null>(
+  value: unknown,
+  fallback: T
+): number | T {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : fallback;
+}
+
+// Hours per eccodes stepUnits code (code table 4.4, plus eccodes' 15
+// and 30 minute units)
+const HOURS_PER_STEP_UNIT: Record<number, number> = {
+  0: 1 / 60,
+  1: 1,
+  2: 24,
+  10: 3,
+  11: 6,
+  12: 12,
+  13: 1 / 3600,
+  254: 1 / 4,
+  255: 1 / 2,
+};
+
+// Hours per unit suffix, as newer eccodes print steps not in hours
+// (e.g. "15m" or "0-90m")
+const HOURS_PER_STEP_SUFFIX: Record<string, number> = {
+  s: 1 / 3600,
+  m: 1 / 60,
+  h: 1,
+  D: 24,
+  d: 24,
+};
+
+/**
+ * Steps to the nearest second, so the same step read from different
+ * units lands on one time step
+ */
+function roundStep(hours: number): number {
+  return Math.round(hours * 3600) / 3600;
+}
+
+/**
+ * Parse stepRange, which can be a number or a string like "0-6" or
+ * "15m", into hours
+ */
+function parseStepRange(
+  stepRange: unknown,
+  stepUnits: number
+): {
+  stepRange: number;
+  startStep: number;
+} {
+  const hoursPerUnit = HOURS_PER_STEP_UNIT[stepUnits] ?? 1;
   if (typeof stepRange === "number") {
-    return stepRange;
+    const step = roundStep(stepRange * hoursPerUnit);
+    return { stepRange: step, startStep: step };
   }
   if (typeof stepRange === "string") {
-    // Handle ranges like "0-6" - take the end value
-    const parts = stepRange.split("-");
-    return parseInt(parts[parts.length - 1], 10) || 0;
+    // Handle ranges like "0-6": the step is the end of the range. A unit
+    // suffix on the end applies to the whole range (e.g. "0-90m").
+    const parts = stepRange.match(/[\d.]+[a-zA-Z]*/g);
+    if (!parts) return { stepRange: 0, startStep: 0 };
+    const rangeSuffix = parts[parts.length - 1].replace(/[\d.]/g, "");
+    const toHours = (part: string) => {
+      const suffix = part.replace(/[\d.]/g, "") || rangeSuffix;
+      const hours = HOURS_PER_STEP_SUFFIX[suffix] ?? hoursPerUnit;
+      return roundStep(parseFloat(part) * hours);
+    };
+    return {
+      stepRange: toHours(parts[parts.length - 1]),
+      startStep: toHours(parts[0]),
+    };
   }
-  return 0;
+  return { stepRange: 0, startStep: 0 };
 }
 
 /**
- * Extract data values for a specific GRIB message using grib_get_data
+ * Whether the built-in decoders can unpack a field's data section
  */
-async function extractMessageData(
-  gribPath: string,
-  messageNumber: number,
-  nx: number,
-  ny: number,
-  _flipVertical: boolean = false
-): Promise<number[]> {
-  // grib_get_data outputs: lat lon value
+function canUnpack(bytes: Uint8Array, field: Grib1Field | Grib2Field): boolean {
+  return field.edition === 1
+    ? isGrib1PackingSupported(bytes, field)
+    : isGrib2PackingSupported(field);
+}
+
+/**
+ * Scan a buffer for GRIB1 and GRIB2 fields in file order
+ */
+function scanFields(bytes: Uint8Array): (Grib1Field | Grib2Field)[] {
+  return [...scanGrib1(bytes), ...scanGrib2(bytes)].sort(
+    (a, b) => a.messageOffset - b.messageOffset
+  );
+}
+
+/**
+ * Repack a file with simple packing using grib_set, in one pass over
+ * all messages, so packings the built-in decoders lack (JPEG 2000, PNG,
+ * CCSDS, GRIB1 second-order) can be read directly
+ */
+async function repackSimple(gribPath: string): Promise<string> {
+  const repackedPath = `${gribPath}.simple`;
   const proc = Bun.spawn(
-    ["grib_get_data", "-w", `count=${messageNumber}`, gribPath],
+    ["grib_set", "-r", "-s", "packingType=grid_simple", gribPath, repackedPath],
     {
       stdout: "pipe",
       stderr: "pipe",
     }
   );
-
-  const output = await new Response(proc.stdout).text();
   await proc.exited;
 
   if (proc.exitCode !== 0) {
     const stderr = await new Response(proc.stderr).text();
-    throw new Error(`grib_get_data failed: ${stderr}`);
+    throw new Error(`grib_set failed: ${stderr}`);
   }
+  return repackedPath;
+}
 
-  // Use Float32Array for better memory efficiency
-  const grid = new Float32Array(nx * ny);
+/**
+ * Open a GRIB file with the eccodes CLI tools. grib_ls supplies the
+ * inventory; values are decoded from the binary sections by the built-in
+ * unpackers rather than printed by grib_get_data, repacking the file
+ * first if it uses a packing they cannot read.
+ */
+async function openEccodesSource(
+  gribPath: string,
+  options: ParseOptions
+): Promise<GribSource> {
+  const bytes = new Uint8Array(await readFile(gribPath));
+  const fields = scanFields(bytes);
 
-  const lines = output.trim().split("\n");
+  if (fields.some((field) => !canUnpack(bytes, field))) {
+    const repackedPath = await repackSimple(gribPath);
+    try {
+      // Offsets change with the packing, so list the repacked file
+      const repacked = new Uint8Array(await readFile(repackedPath));
+      return openFieldSource(
+        repacked,
+        scanFields(repacked),
+        await getGribMetadata(repackedPath, options)
+      );
+    } finally {
+      await unlink(repackedPath).catch(() => {});
+    }
+  }
 
-  // First pass: find bounds
-  let minLat = Infinity,
-    maxLat = -Infinity;
-  let minLon = Infinity,
-    maxLon = -Infinity;
+  return openFieldSource(
+    bytes,
+    fields,
+    await getGribMetadata(gribPath, options)
+  );
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith("Latitude")) continue;
+/**
+ * Pair grib_ls messages with scanned fields by message offset (and
+ * position within multi-field GRIB2 messages)
+ */
+function openFieldSource(
+  bytes: Uint8Array,
+  fields: (Grib1Field | Grib2Field)[],
+  messages: GribMessage[]
+): GribSource {
+  const fieldsByOffset = new Map<number, (Grib1Field | Grib2Field)[]>();
+  for (const field of fields) {
+    const list = fieldsByOffset.get(field.messageOffset);
+    if (list) list.push(field);
+    else fieldsByOffset.set(field.messageOffset, [field]);
+  }
 
-    const parts = trimmed.split(/\s+/);
-    if (parts.length < 3) continue;
+  const fieldsByMessage = new Map<GribMessage, Grib1Field | Grib2Field>();
+  for (const message of messages) {
+    const field = fieldsByOffset.get(message.offset)?.shift();
+    if (field) fieldsByMessage.set(message, field);
+  }
 
-    const lat = parseFloat(parts[0]);
-    let lon = parseFloat(parts[1]);
+  return {
+    messages,
+    readMessages: fieldReader(bytes, fieldsByMessage),
+    skipped: [],
+  };
+}
 
-    if (isNaN(lat) || isNaN(lon)) continue;
+/**
+ * GribMessage step keys for a decoder step range
+ */
+function stepFields(range: { startStep: number; endStep: number }): {
+  stepRange: number;
+  startStep: number;
+} {
+  return {
+    stepRange: roundStep(range.endStep),
+    startStep: roundStep(range.startStep),
+  };
+}
 
-    // Convert longitude from 0-360 to -180/180
-    if (lon > 180) lon -= 360;
+// Regular, rotated, Lambert conformal and Gaussian grids
+const SUPPORTED_GRIB1_GRIDS = new Set([0, 3, 4, 10]);
+const SUPPORTED_GRIB2_GRIDS = new Set([0, 1, 30, 40]);
 
-    minLat = Math.min(minLat, lat);
-    maxLat = Math.max(maxLat, lat);
-    minLon = Math.min(minLon, lon);
-    maxLon = Math.max(maxLon, lon);
+/**
+ * Describe a field from the built-in decoders as a GribMessage,
+ * or null if its grid type is not supported
+ */
+function describeBuiltinField(
+  field: Grib1Field | Grib2Field,
+  messageNumber: number,
+  options: ParseOptions
+): GribMessage | null {
+  const { grid } = field;
+  const gaussian = grid.gaussian
+    ? gaussianGrid(grid.gaussian.N, options)
+    : null;
+
+  if (field.edition === 1) {
+    if (!SUPPORTED_GRIB1_GRIDS.has(field.grid.dataRepresentationType)) {
+      return null;
+    }
+    const product = field.product;
+    const { typeOfLevel, level } = grib1Level(field);
+    const shortName = grib1ShortName(field);
+    return {
+      edition: 1,
+      // GRIB1 has no discipline; take it from the parameter catalogue
+      discipline: PARAMETERS[shortName]?.discipline ?? 0,
+      centre: product.center,
+      subCentre: product.subCenter,
+      generatingProcessIdentifier: product.generatingProcessIdentifier,
+      gridDefinitionTemplateNumber:
+        GRIB1_GRID_TEMPLATES[field.grid.dataRepresentationType] ?? 255,
+      // Flag bit 2 marks the IAU 1965 oblate spheroid, otherwise a sphere
+      shapeOfTheEarth: grid.resolutionAndComponentFlags & 0x40 ? 2 : 0,
+      shortName,
+      level,
+      typeOfLevel,
+      ...namedSurface(typeOfLevel, level),
+      Ni: grid.Ni,
+      Nj: grid.Nj,
+      latitudeOfFirstGridPoint: grid.latitudeOfFirstGridPoint,
+      longitudeOfFirstGridPoint: grid.longitudeOfFirstGridPoint,
+      latitudeOfLastGridPoint: grid.latitudeOfLastGridPoint,
+      longitudeOfLastGridPoint: grid.longitudeOfLastGridPoint,
+      iDirectionIncrement: grid.iDirectionIncrement,
+      jDirectionIncrement: grid.jDirectionIncrement,
+      scanningMode: grid.scanningMode,
+      projection: grid.projection,
+      uvRelativeToGrid: (grid.resolutionAndComponentFlags & 0x08) !== 0,
+      gaussian,
+      dataDate: product.year * 10000 + product.month * 100 + product.day,
+      dataTime: product.hour * 100 + product.minute,
+      ...stepFields(grib1StepRange(field)),
+      typeOfStatisticalProcessing: grib1StatisticalProcessing(
+        product.timeRangeIndicator
+      ),
+      perturbationNumber: product.perturbationNumber,
+      validityDate: null,
+      validityTime: null,
+      messageNumber,
+      offset: field.messageOffset,
+      size: field.messageLength,
+    };
   }
 
-  const dLat = ny > 1 ? (maxLat - minLat) / (ny - 1) : 1;
-  const dLon = nx > 1 ? (maxLon - minLon) / (nx - 1) : 1;
-
-  // Second pass: populate grid directly
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith("Latitude")) continue;
+  if (!SUPPORTED_GRIB2_GRIDS.has(field.grid.template)) return null;
+  const id = field.identification;
+  const { typeOfLevel, level } = grib2Level(field);
+  return {
+    edition: 2,
+    discipline: field.discipline,
+    centre: id.center,
+    subCentre: id.subCenter,
+    generatingProcessIdentifier: field.product.generatingProcessIdentifier,
+    gridDefinitionTemplateNumber: field.grid.template,
+    shapeOfTheEarth: field.grid.shapeOfEarth,
+    shortName: grib2ShortName(field),
+    level,
+    typeOfLevel,
+    typeOfFirstFixedSurface: field.product.typeOfFirstFixedSurface,
+    firstFixedSurface: Number.isNaN(field.product.firstFixedSurface)
+      ? null
+      : field.product.firstFixedSurface,
+    Ni: grid.Ni,
+    Nj: grid.Nj,
+    latitudeOfFirstGridPoint: grid.latitudeOfFirstGridPoint,
+    longitudeOfFirstGridPoint: grid.longitudeOfFirstGridPoint,
+    latitudeOfLastGridPoint: grid.latitudeOfLastGridPoint,
+    longitudeOfLastGridPoint: grid.longitudeOfLastGridPoint,
+    iDirectionIncrement: grid.iDirectionIncrement,
+    jDirectionIncrement: grid.jDirectionIncrement,
+    scanningMode: grid.scanningMode,
+    projection: grid.projection,
+    uvRelativeToGrid: (grid.resolutionAndComponentFlags & 0x08) !== 0,
+    gaussian,
+    dataDate: id.year * 10000 + id.month * 100 + id.day,
+    dataTime: id.hour * 100 + id.minute,
+    ...stepFields(grib2StepRange(field)),
+    typeOfStatisticalProcessing: field.product.typeOfStatisticalProcessing,
+    perturbationNumber: field.product.perturbationNumber,
+    validityDate: field.product.validityDate,
+    validityTime: field.product.validityTime,
+    messageNumber,
+    offset: field.messageOffset,
+    size: field.messageLength,
+  };
+}
 
-    const parts = trimmed.split(/\s+/);
-    if (parts.length < 3) continue;
+/**
+ * Open a GRIB file with the built-in GRIB1/GRIB2 decoders (no eccodes
+ * needed). Files may mix both editions.
+ */
+async function openBuiltinSource(
+  gribPath: string,
+  options: ParseOptions
+): Promise<GribSource> {
+  const bytes = new Uint8Array(await readFile(gribPath));
+  const fields = scanFields(bytes);
+
+  const messages: GribMessage[] = [];
+  const fieldsByMessage = new Map<GribMessage, Grib1Field | Grib2Field>();
+  const skipped: SkippedMessage[] = [];
+
+  fields.forEach((field, idx) => {
+    const message = describeBuiltinField(field, idx + 1, options);
+    if (!message) {
+      const gridType =
+        field.edition === 1
+          ? `data representation type ${field.grid.dataRepresentationType}`
+          : `grid template 3.${field.grid.template}`;
+      skipped.push({
+        messageNumber: idx + 1,
+        offset: field.messageOffset,
+        reason: "unsupported-grid",
+        detail: `The message is on an unsupported grid (${gridType})`,
+      });
+      return;
+    }
+    messages.push(message);
+    fieldsByMessage.set(message, field);
+  });
 
-    const lat = parseFloat(parts[0]);
-    let lon = parseFloat(parts[1]);
-    const value = parseFloat(parts[2]);
+  return {
+    messages,
+    readMessages: fieldReader(bytes, fieldsByMessage),
+    skipped,
+  };
+}
 
-    if (isNaN(lat) || isNaN(lon) || isNaN(value)) continue;
+/**
+ * Decode a field's values onto the leaflet-velocity grid: rows north to
+ * south, with projected and Gaussian grids resampled to lat/lon. Missing
+ * points, masked by a bitmap or outside the source grid, stay NaN.
+ */
+function decodeField(
+  bytes: Uint8Array,
+  field: Grib1Field | Grib2Field,
+  message: GribMessage
+): Float32Array {
+  const unpacked =
+    field.edition === 1
+      ? unpackGrib1Field(bytes, field)
+      : unpackGrib2Field(bytes, field);
+
+  let values: Float32Array;
+  if (message.gaussian) {
+    const definition = { ...message, gaussian: message.gaussian };
+    values = resampleRows(
+      unpacked,
+      gaussianRows(definition, field.grid.gaussian?.pl ?? null),
+      gaussianTargetGrid(definition)
+    );
+  } else {
+    const ordered = orderNorthToSouth(
+      unpacked,
+      message.Ni,
+      message.Nj,
+      message.scanningMode
+    );
+    values = message.projection
+      ? resampleToLatLon(ordered, {
+          ...message,
+          projection: message.projection,
+        })
+      : ordered;
+  }
 
-    // Convert longitude from 0-360 to -180/180
-    if (lon > 180) lon -= 360;
+  return values;
+}
 
-    const i = Math.round((lon - minLon) / dLon);
-    const j = Math.round((maxLat - lat) / dLat); // Flip so north is first
-    if (i >= 0 && i < nx && j >= 0 && j < ny) {
-      grid[j * nx + i] = value;
+/**
+ * Reader decoding messages from an in-memory file, front to back
+ */
+function fieldReader(
+  bytes: Uint8Array,
+  fieldsByMessage: Map<GribMessage, Grib1Field | Grib2Field>
+): GribSource["readMessages"] {
+  return (messages) => {
+    const values = new Map<GribMessage, Float32Array>();
+    const ordered = [...new Set(messages)].sort(
+      (a, b) => a.messageNumber - b.messageNumber
+    );
+    for (const message of ordered) {
+      const field = fieldsByMessage.get(message);
+      if (!field) {
+        throw new Error(`Message ${message.messageNumber} not found`);
+      }
+      values.set(message, decodeField(bytes, field, message));
     }
+    return values;
+  };
+}
+
+/**
+ * Grid geometry in leaflet-velocity terms
+ * (la1=north, la2=south, lo1=west, lo2=east)
+ */
+export interface GridGeometry {
+  nx: number;
+  ny: number;
+  la1: number;
+  lo1: number;
+  la2: number;
+  lo2: number;
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Compute the leaflet-velocity grid geometry of a message
+ */
+function messageGrid(message: GribMessage): GridGeometry {
+  // Projected and Gaussian grids are resampled onto a regular grid
+  // covering them
+  if (message.projection || message.gaussian) {
+    const { nx, ny, la1, lo1, dx, dy } = message.gaussian
+      ? gaussianTargetGrid({ ...message, gaussian: message.gaussian })
+      : projectedTargetGrid({
+          ...message,
+          projection: message.projection!,
+        });
+    return {
+      nx,
+      ny,
+      la1,
+      lo1,
+      la2: la1 - (ny - 1) * dy,
+      lo2: lo1 + (nx - 1) * dx,
+      dx,
+      dy,
+    };
   }
 
-  return Array.from(grid);
+  const lat1 = message.latitudeOfFirstGridPoint;
+  const lat2 = message.latitudeOfLastGridPoint;
+
+  // Columns run east from the west edge, which is the first point unless
+  // the grid scans westwards. The east edge follows the west one without
+  // wrapping, so grids crossing the antimeridian (e.g. 160E to 160W) keep
+  // a continuous span; leaflet-velocity wraps longitudes itself.
+  const [west, east] =
+    message.scanningMode & 0x80
+      ? [message.longitudeOfLastGridPoint, message.longitudeOfFirstGridPoint]
+      : [message.longitudeOfFirstGridPoint, message.longitudeOfLastGridPoint];
+  const lo1 = normalizeLongitude(west);
+  const span = (((east - west) % 360) + 360) % 360;
+
+  return {
+    nx: message.Ni,
+    ny: message.Nj,
+    la1: Math.max(lat1, lat2),
+    la2: Math.min(lat1, lat2),
+    lo1,
+    lo2: lo1 + span,
+    dx: message.iDirectionIncrement,
+    dy: message.jDirectionIncrement,
+  };
 }
 
 /**
- * Build the header object for leaflet-velocity
+ * Build the header object for leaflet-velocity from a message's own
+ * identification, level and grid
  */
 function buildHeader(
-  parameterNumber: number,
-  parameterNumberName: string,
-  nx: number,
-  ny: number,
-  la1: number,
-  lo1: number,
-  la2: number,
-  lo2: number,
-  dx: number,
-  dy: number,
+  parameter: ParameterInfo,
+  message: GribMessage,
   refTime: string,
   forecastTime: number
 ): VelocityHeader {
+  const { parameterCategory, parameterNumber } = parameter;
+  const surface = levelType(message.typeOfLevel);
+  const grid = messageGrid(message);
   return {
-    discipline: 0,
-    disciplineName: "Meteorological products",
-    gribEdition: 2,
-    center: 7,
-    centerName: "US National Weather Service - NCEP(WMC)",
+    discipline: message.discipline,
+    disciplineName: disciplineName(message.discipline),
+    gribEdition: message.edition,
+    center: message.centre,
+    centerName: centreName(message.centre),
+    subCenter: message.subCentre,
+    generatingProcessIdentifier: message.generatingProcessIdentifier,
+    modelName: modelName(message.centre, message.generatingProcessIdentifier),
     refTime,
-    parameterCategory: 2,
-    parameterCategoryName: "Momentum",
+    parameterCategory,
+    parameterCategoryName:
+      CATEGORY_NAMES[`${message.discipline}:${parameterCategory}`] ?? "Unknown",
     parameterNumber,
-    parameterNumberName,
-    parameterUnit: "m.s-1",
+    parameterNumberName: parameter.gribName,
+    parameterUnit: parameter.units || message.units || "",
     forecastTime,
-    surface1Type: 103,
-    surface1TypeName: "Specified height level above ground",
-    surface1Value: 10.0,
-    gridDefinitionTemplate: 0,
-    gridDefinitionTemplateName: "Latitude_Longitude",
-    numberPoints: nx * ny,
-    shape: 6,
-    nx,
-    ny,
-    lo1,
-    la1,
-    lo2,
-    la2,
-    dx,
-    dy,
+    surface1Type: surface.code,
+    surface1TypeName: surface.name,
+    // Pressure levels are reported in Pa, as in GRIB2
+    surface1Value:
+      message.typeOfLevel === "isobaricInhPa"
+        ? message.level * 100
+        : message.level,
+    gridDefinitionTemplate: message.gridDefinitionTemplateNumber,
+    gridDefinitionTemplateName: gridTemplateName(
+      message.gridDefinitionTemplateNumber
+    ),
+    shape: message.shapeOfTheEarth,
+    ...grid,
+    numberPoints: grid.nx * grid.ny,
   };
 }
 
@@ -336,207 +1120,911 @@ function formatGribTime(dataDate: number, dataTime: number): string {
 }
 
 /**
- * Calculate valid time from reference time and forecast hour
+ * Calculate valid time from reference time and forecast hour, which may
+ * be fractional (e.g. 0.25 for 15 minutes)
  */
 function calculateValidTime(refTime: string, forecastHour: number): string {
   const refDate = new Date(refTime);
-  refDate.setUTCHours(refDate.getUTCHours() + forecastHour);
-  return refDate.toISOString();
+  return new Date(
+    refDate.getTime() + Math.round(forecastHour * 3600) * 1000
+  ).toISOString();
 }
 
 /**
- * Parse a single time step from GRIB messages
+ * Valid time of a forecast step: as stated by its messages where they
+ * say, otherwise the reference time plus the step
  */
-async function parseTimeStep(
-  gribPath: string,
-  uMessage: GribMessage,
-  vMessage: GribMessage,
+function stepValidTime(
+  messages: GribMessage[],
+  forecastHour: number,
   refTime: string
-): Promise<VelocityData> {
-  const nx = uMessage.Ni;
-  const ny = uMessage.Nj;
-
-  // Process coordinates
-  let lat1 = uMessage.latitudeOfFirstGridPoint;
-  let lon1 = uMessage.longitudeOfFirstGridPoint;
-  let lat2 = uMessage.latitudeOfLastGridPoint;
-  let lon2 = uMessage.longitudeOfLastGridPoint;
-
-  // Convert longitudes from 0-360 to -180/180 format
-  if (lon1 > 180) lon1 = lon1 - 360;
-  if (lon2 > 180) lon2 = lon2 - 360;
-
-  // leaflet-velocity expects: la1=north, la2=south, lo1=west, lo2=east
-  const la1 = Math.max(lat1, lat2);
-  const la2 = Math.min(lat1, lat2);
-  const lo1 = Math.min(lon1, lon2);
-  const lo2 = Math.max(lon1, lon2);
-
-  const dx = uMessage.iDirectionIncrement;
-  const dy = uMessage.jDirectionIncrement;
-  const scansSouthToNorth = lat1 < lat2;
-
-  // Extract data
-  const [uData, vData] = await Promise.all([
-    extractMessageData(
-      gribPath,
-      uMessage.messageNumber,
-      nx,
-      ny,
-      scansSouthToNorth
-    ),
-    extractMessageData(
-      gribPath,
-      vMessage.messageNumber,
-      nx,
-      ny,
-      scansSouthToNorth
-    ),
-  ]);
+): string {
+  const stated = messages.find(
+    (m) => m.stepRange === forecastHour && m.validityDate !== null
+  );
+  return stated?.validityDate
+    ? new Date(
+        formatGribTime(stated.validityDate, stated.validityTime ?? 0)
+      ).toISOString()
+    : calculateValidTime(refTime, forecastHour);
+}
 
-  const forecastHour = uMessage.stepRange;
+/**
+ * Values decoded from the file, keyed by message
+ */
+type DecodedValues = Map<GribMessage, Float32Array>;
 
-  const uComponent: VelocityComponent = {
+/**
+ * Parse a single scalar message
+ */
+function parseScalarStep(
+  decoded: DecodedValues,
+  message: GribMessage,
+  refTime: string
+): VelocityComponent {
+  return {
     header: buildHeader(
-      2,
-      "U-component_of_wind",
-      nx,
-      ny,
-      la1,
-      lo1,
-      la2,
-      lo2,
-      dx,
-      dy,
+      getParameterInfo(message.shortName),
+      message,
       refTime,
-      forecastHour
+      message.stepRange
     ),
-    data: uData,
+    data: decoded.get(message)!,
   };
+}
 
-  const vComponent: VelocityComponent = {
-    header: buildHeader(
-      3,
-      "V-component_of_wind",
-      nx,
-      ny,
-      la1,
-      lo1,
-      la2,
-      lo2,
-      dx,
-      dy,
-      refTime,
-      forecastHour
-    ),
-    data: vData,
-  };
+/**
+ * Parse a single vector time step from its U and V messages
+ */
+function parseVectorStep(
+  decoded: DecodedValues,
+  uMessage: GribMessage,
+  vMessage: GribMessage,
+  refTime: string
+): VelocityData {
+  const uComponent = parseScalarStep(decoded, uMessage, refTime);
+  const vComponent = parseScalarStep(decoded, vMessage, refTime);
+
+  // On projected grids, grid-relative components point along the grid
+  // axes, which turn away from east/north across the map
+  if (uMessage.projection && uMessage.uvRelativeToGrid) {
+    rotateToEarth(decoded.get(uMessage)!, decoded.get(vMessage)!, {
+      ...uMessage,
+      projection: uMessage.projection,
+    });
+  }
 
   return [uComponent, vComponent];
 }
 
 /**
- * Parse a GRIB file with multiple time steps
+ * Per-interval amounts and rates of an accumulated field, aligned with
+ * the dataset time axis. Each step covers the time since the field's
+ * previous step; totals accumulated from an earlier start (e.g. "0-12"
+ * after "0-6") are differenced.
  */
-export async function parseGribToMultiTimeVelocityJson(
-  gribPath: string,
-  refTimeOverride?: string
-): Promise<MultiTimeVelocityData> {
-  // Check eccodes is available
-  const hasEccodes = await checkEccodes();
-  if (!hasEccodes) {
-    throw new Error(
-      "eccodes is not installed. Install with: brew install eccodes"
-    );
+function parseAccumulatedSteps(
+  decoded: DecodedValues,
+  messages: GribMessage[],
+  forecastHours: number[],
+  refTime: string,
+  rateParameter: string
+): {
+  amounts: (VelocityComponent | null)[];
+  rates: (VelocityComponent | null)[];
+} {
+  const amounts: (VelocityComponent | null)[] = forecastHours.map(() => null);
+  const rates: (VelocityComponent | null)[] = forecastHours.map(() => null);
+  const read = (message: GribMessage) => decoded.get(message)!;
+
+  const ends = [...new Set(messages.map((m) => m.stepRange))].sort(
+    (a, b) => a - b
+  );
+
+  for (let k = 0; k < ends.length; k++) {
+    const end = ends[k];
+    // Steps outside the hours parsed (e.g. before fromHour) are only
+    // there to difference against
+    const index = forecastHours.indexOf(end);
+    if (index === -1) continue;
+    const previous = k > 0 ? ends[k - 1] : undefined;
+    const endingHere = messages.filter((m) => m.stepRange === end);
+
+    let message: GribMessage;
+    let start: number;
+    let values: Float32Array;
+
+    const interval = endingHere.find((m) => m.startStep === previous);
+    const earlierTotal = (m: GribMessage) =>
+      messages.find(
+        (e) => e.startStep === m.startStep && e.stepRange === previous
+      );
+    const total = endingHere.find((m) => earlierTotal(m));
+
+    if (interval) {
+      message = interval;
+      start = interval.startStep;
+      values = read(interval);
+    } else if (total && previous !== undefined) {
+      const totalValues = read(total);
+      const earlierValues = read(earlierTotal(total)!);
+      message = total;
+      start = previous;
+      // Packing noise can make the difference slightly negative
+      values = totalValues.map((v, i) => Math.max(0, v - earlierValues[i]));
+    } else {
+      // Nothing to difference against: use the shortest window
+      message = endingHere.reduce((a, b) =>
+        b.stepRange - b.startStep < a.stepRange - a.startStep ? b : a
+      );
+      start = message.startStep;
+      values = read(message);
+    }
+
+    // Zero-length accumulations (e.g. "0-0" at analysis time) carry no data
+    const hours = end - start;
+    if (hours <= 0) continue;
+
+    amounts[index] = {
+      header: buildHeader(
+        getParameterInfo(message.shortName),
+        message,
+        refTime,
+        end
+      ),
+      data: values,
+    };
+    rates[index] = {
+      header: buildHeader(
+        getParameterInfo(rateParameter),
+        message,
+        refTime,
+        end
+      ),
+      data: values.map((v) => v / hours),
+    };
   }
 
-  // Get metadata for all messages
-  const messages = await getGribMetadata(gribPath);
+  return { amounts, rates };
+}
 
-  if (messages.length === 0) {
-    throw new Error("No messages found in GRIB file");
+/**
+ * Messages belonging to one field: a parameter at one level
+ */
+interface FieldMessages {
+  id: string;
+  kind: "scalar" | "vector";
+  parameter: string;
+  typeOfLevel: string;
+  level: number;
+  // Scalar fields use `messages`; vector fields use `u` and `v`
+  messages: GribMessage[];
+  u: GribMessage[];
+  v: GribMessage[];
+}
+
+/**
+ * Field a message belongs to: its parameter (the vector's, for U/V
+ * components) at its level, or null when it cannot be decoded
+ */
+function messageField(message: GribMessage): {
+  id: string;
+  parameter: string;
+  vector: ParameterInfo["vector"];
+} | null {
+  // The built-in decoders cannot name parameters outside their tables
+  if (message.shortName === "unknown") return null;
+
+  const vector = PARAMETERS[message.shortName]?.vector;
+  const parameter = vector?.parameter ?? message.shortName;
+  return {
+    id: `${parameter}:${message.typeOfLevel}:${message.level}`,
+    parameter,
+    vector,
+  };
+}
+
+/**
+ * Group messages into fields keyed by parameter and level, pairing
+ * U/V components into vector fields
+ */
+function groupMessages(messages: GribMessage[]): FieldMessages[] {
+  const groups = new Map<string, FieldMessages>();
+
+  for (const message of messages) {
+    const field = messageField(message);
+    if (!field) continue;
+    const { id, parameter, vector } = field;
+
+    let group = groups.get(id);
+    if (!group) {
+      group = {
+        id,
+        kind: vector ? "vector" : "scalar",
+        parameter,
+        typeOfLevel: message.typeOfLevel,
+        level: message.level,
+        messages: [],
+        u: [],
+        v: [],
+      };
+      groups.set(id, group);
+    }
+
+    if (!vector) {
+      group.messages.push(message);
+    } else if (vector.component === "u") {
+      group.u.push(message);
+    } else {
+      group.v.push(message);
+    }
   }
 
-  // Find all U and V wind components at 10m above ground
-  const uMessages = messages.filter(
-    (m) =>
-      (m.shortName === "10u" || m.shortName === "u") &&
-      ((m.typeOfLevel === "heightAboveGround" && m.level === 10) ||
-        m.typeOfLevel === "surface" ||
-        m.shortName === "10u") // 10u is always 10m wind
-  );
+  // Vector fields first, with 10m wind leading as the default field
+  const rank = (group: FieldMessages) =>
+    group.id === "wind:heightAboveGround:10"
+      ? 0
+      : group.kind === "vector"
+        ? 1
+        : 2;
+
+  // Keep each parameter's levels together, pressure levels from the
+  // surface upwards (1000, 850, 500 hPa, ...)
+  const families = new Map<string, number>();
+  for (const group of groups.values()) {
+    const family = `${group.parameter}:${group.typeOfLevel}`;
+    if (!families.has(family)) families.set(family, families.size);
+  }
+  const family = (group: FieldMessages) =>
+    families.get(`${group.parameter}:${group.typeOfLevel}`)!;
+  const levelOrder = (a: FieldMessages, b: FieldMessages) =>
+    a.typeOfLevel === "isobaricInhPa" ? b.level - a.level : a.level - b.level;
 
-  const vMessages = messages.filter(
-    (m) =>
-      (m.shortName === "10v" || m.shortName === "v") &&
-      ((m.typeOfLevel === "heightAboveGround" && m.level === 10) ||
-        m.typeOfLevel === "surface" ||
-        m.shortName === "10v")
+  return [...groups.values()].sort(
+    (a, b) => rank(a) - rank(b) || family(a) - family(b) || levelOrder(a, b)
   );
+}
+
+/**
+ * Point scalar fields at the direction field drawn over them, preferring
+ * one at the same level
+ */
+function linkDirectionFields(fields: DatasetField[]): void {
+  for (const field of fields) {
+    if (field.kind !== "scalar") continue;
+    const candidates = getParameterInfo(field.parameter).direction ?? [];
+
+    for (const parameter of candidates) {
+      const matches = fields.filter(
+        (f) => f.kind === "scalar" && f.parameter === parameter
+      );
+      const match =
+        matches.find(
+          (f) => f.typeOfLevel === field.typeOfLevel && f.level === field.level
+        ) ?? matches[0];
+      if (match) {
+        field.directionFieldId = match.id;
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Perturbation numbers of an ensemble group's members, in order; empty
+ * unless every message belongs to a member
+ */
+function ensembleMembers(group: FieldMessages): number[] {
+  const messages = [...group.messages, ...group.u, ...group.v];
+  const numbers = messages.map((m) => m.perturbationNumber);
+  if (numbers.some((n) => n === null)) return [];
+  return [...new Set(numbers as number[])].sort((a, b) => a - b);
+}
 
-  // If no 10m wind, try any U/V
-  if (uMessages.length === 0 || vMessages.length === 0) {
-    const uAny = messages.filter(
-      (m) => m.shortName === "10u" || m.shortName === "u"
+/**
+ * The messages of a group that belong to one ensemble member
+ */
+function memberGroup(
+  group: FieldMessages,
+  perturbationNumber: number
+): FieldMessages {
+  const ofMember = (m: GribMessage) =>
+    m.perturbationNumber === perturbationNumber;
+  return {
+    ...group,
+    messages: group.messages.filter(ofMember),
+    u: group.u.filter(ofMember),
+    v: group.v.filter(ofMember),
+  };
+}
+
+/**
+ * Parse one group of messages into its dataset fields (two for
+ * accumulated parameters: amounts and rates)
+ */
+function parseGroup(
+  group: FieldMessages,
+  decoded: DecodedValues,
+  forecastHours: number[],
+  refTime: string
+): DatasetField[] {
+  const base = {
+    id: group.id,
+    parameter: group.parameter,
+    typeOfLevel: group.typeOfLevel,
+    level: group.level,
+  };
+
+  if (group.kind === "vector") {
+    const info = VECTOR_PARAMETERS[group.parameter];
+    const steps: (VelocityData | null)[] = [];
+
+    for (const forecastHour of forecastHours) {
+      const uMsg = group.u.find((m) => m.stepRange === forecastHour);
+      const vMsg = group.v.find((m) => m.stepRange === forecastHour);
+
+      if (!uMsg || !vMsg) {
+        if (uMsg || vMsg) {
+          console.warn(
+            `Skipping forecast hour ${forecastHour} of ${group.id}: missing U or V component`
+          );
+        }
+        steps.push(null);
+        continue;
+      }
+
+      steps.push(parseVectorStep(decoded, uMsg, vMsg, refTime));
+    }
+
+    if (steps.every((step) => step === null)) return [];
+    return [
+      {
+        ...base,
+        kind: "vector",
+        name: info?.name ?? group.parameter,
+        units: info?.units ?? "",
+        steps,
+      },
+    ];
+  }
+
+  const info = getParameterInfo(group.parameter);
+
+  if (info.rate) {
+    const rateInfo = getParameterInfo(info.rate);
+    const { amounts, rates } = parseAccumulatedSteps(
+      decoded,
+      group.messages,
+      forecastHours,
+      refTime,
+      info.rate
     );
-    const vAny = messages.filter(
-      (m) => m.shortName === "10v" || m.shortName === "v"
+    return [
+      {
+        ...base,
+        id: `${info.rate}:${group.typeOfLevel}:${group.level}`,
+        parameter: info.rate,
+        kind: "scalar",
+        name: rateInfo.name,
+        units: rateInfo.units,
+        steps: rates,
+      },
+      {
+        ...base,
+        kind: "scalar",
+        name: info.name,
+        units: info.units,
+        steps: amounts,
+      },
+    ];
+  }
+
+  const steps: (VelocityComponent | null)[] = [];
+  for (const forecastHour of forecastHours) {
+    const msg = group.messages.find((m) => m.stepRange === forecastHour);
+    steps.push(msg ? parseScalarStep(decoded, msg, refTime) : null);
+  }
+
+  return [
+    {
+      ...base,
+      kind: "scalar",
+      name: info.name,
+      units: info.units,
+      steps,
+    },
+  ];
+}
+
+/**
+ * The messages of a group needed for one forecast hour: that hour's
+ * messages, plus for accumulated fields those ending at the field's
+ * previous step, which they may be differenced against
+ */
+function stepGroup(group: FieldMessages, forecastHour: number): FieldMessages {
+  const atHour = (m: GribMessage) => m.stepRange === forecastHour;
+  let messages = group.messages.filter(atHour);
+
+  if (getParameterInfo(group.parameter).rate) {
+    const ends = [...new Set(group.messages.map((m) => m.stepRange))].sort(
+      (a, b) => a - b
     );
+    const previous = ends[ends.indexOf(forecastHour) - 1];
+    if (messages.length > 0 && previous !== undefined) {
+      messages = group.messages.filter(
+        (m) => m.stepRange === forecastHour || m.stepRange === previous
+      );
+    }
+  }
 
-    if (uAny.length === 0 || vAny.length === 0) {
-      const availableVars = [...new Set(messages.map((m) => m.shortName))].join(
-        ", "
+  return {
+    ...group,
+    messages,
+    u: group.u.filter(atHour),
+    v: group.v.filter(atHour),
+  };
+}
+
+/**
+ * Messages of every group needed for one forecast hour (see stepGroup)
+ */
+function stepMessages(
+  groups: FieldMessages[],
+  forecastHour: number
+): GribMessage[] {
+  return groups.flatMap((group) => {
+    const step = stepGroup(group, forecastHour);
+    return [...step.messages, ...step.u, ...step.v];
+  });
+}
+
+/**
+ * Parse the fields of every group at one forecast hour. The fields span
+ * the whole time axis, but only that hour's step is filled in.
+ */
+function parseStepFields(
+  groups: FieldMessages[],
+  decoded: DecodedValues,
+  forecastHours: number[],
+  refTime: string,
+  forecastHour: number
+): DatasetField[] {
+  const fields: DatasetField[] = [];
+
+  for (const group of groups) {
+    // Membership comes from the whole file, in case a member lacks a step
+    const members = ensembleMembers(group);
+    const step = stepGroup(group, forecastHour);
+    if (members.length <= 1) {
+      fields.push(...parseGroup(step, decoded, forecastHours, refTime));
+      continue;
+    }
+
+    // Parse each member on its own, then keep the first member's fields
+    // with every member's steps attached
+    const memberFields = members.map((perturbationNumber) =>
+      parseGroup(
+        memberGroup(step, perturbationNumber),
+        decoded,
+        forecastHours,
+        refTime
+      )
+    );
+    const empty = forecastHours.map(() => null);
+    for (const field of memberFields[0]) {
+      const stepsOf = (k: number) =>
+        memberFields[k].find((f) => f.id === field.id)?.steps ?? empty;
+      if (field.kind === "vector") {
+        field.members = members.map((perturbationNumber, k) => ({
+          perturbationNumber,
+          steps: stepsOf(k) as (VelocityData | null)[],
+        }));
+        fields.push(field, ...ensembleWindFields(field));
+      } else {
+        field.members = members.map((perturbationNumber, k) => ({
+          perturbationNumber,
+          steps: stepsOf(k) as (VelocityComponent | null)[],
+        }));
+        fields.push(field);
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * A field with its step at `index`, and its members', cropped and
+ * averaged down (see subset.ts)
+ */
+function subsetStep(
+  field: DatasetField,
+  index: number,
+  subset: GridSubset
+): DatasetField {
+  const atIndex = <T>(steps: (T | null)[], subsetOf: (step: T) => T) =>
+    steps.map((step, k) => (k === index && step ? subsetOf(step) : step));
+
+  if (field.kind === "vector") {
+    const subsetOf = (step: VelocityData) => subsetVector(step, subset);
+    return {
+      ...field,
+      steps: atIndex(field.steps, subsetOf),
+      members: field.members?.map((member) => ({
+        ...member,
+        steps: atIndex(member.steps, subsetOf),
+      })),
+    };
+  }
+
+  // Directions (e.g. wave direction) average around the circle
+  const circular = field.units === "Degree true";
+  const subsetOf = (step: VelocityComponent) =>
+    subsetScalar(step, subset, circular);
+  return {
+    ...field,
+    steps: atIndex(field.steps, subsetOf),
+    members: field.members?.map((member) => ({
+      ...member,
+      steps: atIndex(member.steps, subsetOf),
+    })),
+  };
+}
+
+/**
+ * A decoded message, cropped and averaged down, as a GRIB2 message on
+ * its lat/lon grid
+ */
+function encodeComponent(
+  component: VelocityComponent,
+  message: GribMessage,
+  members: number,
+  refTime: string
+): Uint8Array {
+  const { header } = component;
+  const info = getParameterInfo(message.shortName);
+  return encodeGrib2Message({
+    discipline: info.discipline,
+    centre: header.center,
+    subCentre: header.subCenter,
+    refTime: new Date(refTime),
+    parameterCategory: info.parameterCategory,
+    parameterNumber: info.parameterNumber,
+    generatingProcessIdentifier: header.generatingProcessIdentifier,
+    typeOfFirstFixedSurface: message.typeOfFirstFixedSurface,
+    firstFixedSurface: message.firstFixedSurface,
+    startStep: message.startStep,
+    endStep: message.stepRange,
+    // Intervals whose process is not given: accumulations for rates,
+    // otherwise missing
+    typeOfStatisticalProcessing:
+      message.typeOfStatisticalProcessing ?? (info.rate ? 1 : 255),
+    perturbationNumber: message.perturbationNumber,
+    numberOfForecastsInEnsemble: members,
+    shapeOfTheEarth: header.shape,
+    grid: header,
+    values: component.data,
+  });
+}
+
+/**
+ * Encode the messages of every group at one forecast hour, cropped and
+ * averaged down, keyed by their place in the source file. U/V components
+ * are turned to east/north on projected grids, and a component without
+ * its partner is left out. Parameters outside the catalogue have no
+ * GRIB2 code to write and are skipped.
+ */
+function encodeSubsetStep(
+  groups: FieldMessages[],
+  decoded: DecodedValues,
+  refTime: string,
+  forecastHour: number,
+  subset: GridSubset
+): Map<number, Uint8Array> {
+  const encoded = new Map<number, Uint8Array>();
+  const atHour = (m: GribMessage) => m.stepRange === forecastHour;
+  const cataloged = (m: GribMessage) => m.shortName in PARAMETERS;
+
+  for (const group of groups) {
+    const members = ensembleMembers(group).length;
+
+    for (const message of group.messages.filter(atHour)) {
+      if (!cataloged(message)) continue;
+      let component = parseScalarStep(decoded, message, refTime);
+      if (hasGridSubset(subset)) {
+        const circular = component.header.parameterUnit === "Degree true";
+        component = subsetScalar(component, subset, circular);
+      }
+      encoded.set(
+        message.messageNumber,
+        encodeComponent(component, message, members, refTime)
       );
-      throw new Error(
-        `Could not find U/V wind components. Available variables: ${availableVars}`
+    }
+
+    for (const uMessage of group.u.filter(atHour)) {
+      const vMessage = group.v.find(
+        (m) =>
+          atHour(m) &&
+          m.startStep === uMessage.startStep &&
+          m.perturbationNumber === uMessage.perturbationNumber
+      );
+      if (!vMessage) continue;
+      let pair = parseVectorStep(decoded, uMessage, vMessage, refTime);
+      if (hasGridSubset(subset)) pair = subsetVector(pair, subset);
+      encoded.set(
+        uMessage.messageNumber,
+        encodeComponent(pair[0], uMessage, members, refTime)
+      );
+      encoded.set(
+        vMessage.messageNumber,
+        encodeComponent(pair[1], vMessage, members, refTime)
       );
     }
+  }
+
+  return encoded;
+}
 
-    uMessages.push(...uAny.filter((m) => !uMessages.includes(m)));
-    vMessages.push(...vAny.filter((m) => !vMessages.includes(m)));
+/**
+ * Run `open` on a GRIB file with its damaged messages left out (see
+ * gribCheck.ts), so one cut-off message does not fail the whole file.
+ * The intact messages go to a file of their own while `open` reads it,
+ * and are then numbered and placed as in the uploaded file, with the
+ * damaged ones added to the skipped.
+ */
+async function openIntact<
+  T extends { messages: GribMessage[]; skipped: SkippedMessage[] },
+>(gribPath: string, open: (path: string) => Promise<T>): Promise<T> {
+  const { intact, origins, skipped } = checkGribMessages(
+    new Uint8Array(await readFile(gribPath))
+  );
+
+  let opened: T;
+  if (skipped.length === 0) {
+    opened = await open(gribPath);
+  } else {
+    const intactPath = `${gribPath}.intact`;
+    await writeFile(intactPath, intact);
+    try {
+      opened = await open(intactPath);
+    } finally {
+      await unlink(intactPath).catch(() => {});
+    }
+    restoreOrigins([...opened.messages, ...opened.skipped], origins);
   }
 
-  // Get unique forecast hours (stepRange values)
-  const forecastHours = [...new Set(uMessages.map((m) => m.stepRange))].sort(
+  const allSkipped = [...skipped, ...opened.skipped].sort(
+    (a, b) => a.offset - b.offset
+  );
+  for (const message of allSkipped) {
+    console.warn(
+      `Skipping message ${message.messageNumber}: ${message.detail}`
+    );
+  }
+  return { ...opened, skipped: allSkipped };
+}
+
+/**
+ * Give messages read from an intact file the number and offset they had
+ * in the uploaded one. Messages are matched by their order in the intact
+ * file rather than their offset, which repacking changes. Each field of
+ * a multi-field message keeps a number of its own, after one for every
+ * damaged message before it.
+ */
+function restoreOrigins(
+  places: { messageNumber: number; offset: number }[],
+  origins: MessageOrigin[]
+): void {
+  const offsets = [...new Set(places.map((place) => place.offset))].sort(
     (a, b) => a - b
   );
+  const positions = new Map(offsets.map((offset, k) => [offset, k]));
+  for (const place of places) {
+    const position = positions.get(place.offset)!;
+    const origin = origins[position];
+    // Damaged messages left out before this one
+    place.messageNumber += origin.messageNumber - (position + 1);
+    place.offset = origin.offset;
+  }
+}
+
+/**
+ * Open a GRIB file, preferring eccodes when installed, otherwise using
+ * the built-in decoders
+ */
+async function openSource(
+  gribPath: string,
+  options: ParseOptions
+): Promise<GribSource> {
+  const source = await openIntact(gribPath, async (path) =>
+    (await checkEccodes())
+      ? openEccodesSource(path, options)
+      : openBuiltinSource(path, options)
+  );
+  if (source.messages.length === 0) {
+    throw new Error("No messages found in GRIB file");
+  }
+  return source;
+}
+
+/**
+ * The file's fields among the variables and levels asked for
+ */
+function selectGroups(
+  messages: GribMessage[],
+  options: ParseOptions
+): FieldMessages[] {
+  const allGroups = groupMessages(messages);
+  if (allGroups.length === 0) {
+    const availableVars = [...new Set(messages.map((m) => m.shortName))].join(
+      ", "
+    );
+    throw new Error(
+      `No decodable fields found. Available variables: ${availableVars}`
+    );
+  }
+
+  const groups = allGroups.filter(
+    (group) =>
+      (!options.parameters || options.parameters.includes(group.parameter)) &&
+      (!options.levels ||
+        options.levels.includes(`${group.typeOfLevel}:${group.level}`))
+  );
+  if (groups.length === 0) {
+    throw new Error(
+      "None of the selected variables and levels are in the file"
+    );
+  }
+  return groups;
+}
+
+/**
+ * Unique forecast hours (stepRange values) of the fields' messages,
+ * within the range and among the hours asked for
+ */
+function selectForecastHours(
+  fieldMessages: GribMessage[],
+  options: ParseOptions
+): number[] {
+  const { fromHour = -Infinity, toHour = Infinity } = options;
+  const forecastHours = [...new Set(fieldMessages.map((m) => m.stepRange))]
+    .filter(
+      (hour) =>
+        hour >= fromHour &&
+        hour <= toHour &&
+        (!options.forecastHours || options.forecastHours.includes(hour))
+    )
+    .sort((a, b) => a - b);
+  if (forecastHours.length === 0) {
+    throw new Error("No time steps found in the requested range");
+  }
+  return forecastHours;
+}
+
+/**
+ * Parse a GRIB file into a dataset holding every decodable field,
+ * with all fields aligned on a shared time axis. `onProgress` hears
+ * about the inventory, then about each time step as it is decoded.
+ */
+export async function parseGribToDataset(
+  gribPath: string,
+  refTimeOverride?: string,
+  options: ParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<GribDataset> {
+  const source = await openSource(gribPath, options);
+  const messages = source.messages;
+  const groups = selectGroups(messages, options);
+  const fieldMessages = groups.flatMap((g) => [...g.messages, ...g.u, ...g.v]);
+  const forecastHours = selectForecastHours(fieldMessages, options);
 
   // Determine reference time from first message or override
   const firstMsg = messages[0];
   const refTime =
     refTimeOverride || formatGribTime(firstMsg.dataDate, firstMsg.dataTime);
 
-  // Parse each time step
-  const timeSteps: TimeStep[] = [];
+  // An overridden reference time moves every step with it
+  const timeSteps = forecastHours.map((forecastHour) => ({
+    forecastHour,
+    validTime: refTimeOverride
+      ? calculateValidTime(refTime, forecastHour)
+      : stepValidTime(fieldMessages, forecastHour, refTime),
+  }));
+  onProgress?.({
+    type: "inventory",
+    refTime,
+    timeSteps,
+    messageCount: messages.length,
+    skippedMessages: source.skipped,
+  });
 
-  for (const forecastHour of forecastHours) {
-    const uMsg = uMessages.find((m) => m.stepRange === forecastHour);
-    const vMsg = vMessages.find((m) => m.stepRange === forecastHour);
+  // Decode and build one time step at a time, so callers can show each
+  // step as soon as it is ready
+  const decoded: DecodedValues = new Map();
+  let dataset = emptyDataset(refTime, timeSteps, source.skipped);
 
-    if (!uMsg || !vMsg) {
-      console.warn(
-        `Skipping forecast hour ${forecastHour}: missing U or V component`
-      );
-      continue;
+  for (let index = 0; index < forecastHours.length; index++) {
+    const forecastHour = forecastHours[index];
+    const pending = stepMessages(groups, forecastHour).filter(
+      (message) => !decoded.has(message)
+    );
+    for (const [message, values] of source.readMessages(pending)) {
+      decoded.set(message, values);
+    }
+
+    let fields = parseStepFields(
+      groups,
+      decoded,
+      forecastHours,
+      refTime,
+      forecastHour
+    );
+    if (hasGridSubset(options)) {
+      fields = fields.map((field) => subsetStep(field, index, options));
+    }
+    linkDirectionFields(fields);
+    dataset = mergeDatasetStep(dataset, fields, index);
+    onProgress?.({ type: "step", index, total: forecastHours.length, fields });
+
+    // Keep only the values the next step still needs (accumulations it
+    // is differenced against), so memory holds about one step's worth
+    const next = forecastHours[index + 1];
+    const needed = new Set(
+      next === undefined ? [] : stepMessages(groups, next)
+    );
+    for (const message of decoded.keys()) {
+      if (!needed.has(message)) decoded.delete(message);
     }
 
-    const velocityData = await parseTimeStep(gribPath, uMsg, vMsg, refTime);
-    const validTime = calculateValidTime(refTime, forecastHour);
+    // Let progress events (and other requests) through between steps
+    await new Promise((resolve) => setImmediate(resolve));
+  }
 
-    timeSteps.push({
-      forecastHour,
-      validTime,
-      data: velocityData,
-    });
+  if (dataset.fields.length === 0) {
+    throw new Error("No valid fields found in GRIB file");
   }
 
-  if (timeSteps.length === 0) {
-    throw new Error("No valid time steps found in GRIB file");
+  return dataset;
+}
+
+/**
+ * Parse a GRIB file with multiple time steps into wind-only velocity data
+ * (for backward compatibility, prefers 10m wind)
+ */
+export async function parseGribToMultiTimeVelocityJson(
+  gribPath: string,
+  refTimeOverride?: string
+): Promise<MultiTimeVelocityData> {
+  const dataset = await parseGribToDataset(gribPath, refTimeOverride);
+
+  // Prefer 10m (or other near-surface) wind; only fall back to the
+  // lowest pressure level when the file has nothing else
+  const winds = dataset.fields.filter(
+    (f): f is VectorField => f.kind === "vector" && f.parameter === "wind"
+  );
+  const wind =
+    winds.find((f) => f.id === "wind:heightAboveGround:10") ??
+    winds.find((f) => f.typeOfLevel !== "isobaricInhPa") ??
+    winds[0];
+  if (wind && wind.typeOfLevel === "isobaricInhPa") {
+    console.warn(`No surface wind found, using ${wind.level} hPa wind`);
+  }
+  if (!wind) {
+    const availableVars = dataset.fields.map((f) => f.parameter).join(", ");
+    throw new Error(
+      `Could not find U/V wind components. Available variables: ${availableVars}`
+    );
   }
 
+  const timeSteps: TimeStep[] = [];
+  dataset.timeSteps.forEach((timeStep, idx) => {
+    const data = wind.steps[idx];
+    if (data) timeSteps.push({ ...timeStep, data });
+  });
+
   return {
     timeSteps,
-    refTime,
+    refTime: dataset.refTime,
   };
 }
 
@@ -558,28 +2046,14 @@ export async function parseGribToVelocityJson(
   return multiTime.timeSteps[0].data;
 }
 
-// Concurrency limiting for parsing operations
-let activeParses = 0;
-const MAX_CONCURRENT_PARSES = 2;
-
 /**
- * Parse a GRIB file from a buffer (in-memory processing)
- * Writes to a temp file, parses with eccodes, then deletes the temp file.
- * Includes concurrency limiting to prevent OOM from burst uploads.
+ * Run `task` on a buffer written to a temp file, deleting the file after
  */
-export async function parseGribBuffer(
+async function withTempFile<T>(
   buffer: ArrayBuffer,
-  filename: string
-): Promise<MultiTimeVelocityData> {
-  // Check concurrency limit
-  if (activeParses >= MAX_CONCURRENT_PARSES) {
-    throw new Error(
-      "Server busy processing other files. Please try again in a moment."
-    );
-  }
-
-  activeParses++;
-
+  filename: string,
+  task: (path: string) => Promise<T>
+): Promise<T> {
   // Create temp directory if needed
   const tempDir = join(tmpdir(), "marine-grib-viewer");
   await mkdir(tempDir, { recursive: true });
@@ -590,13 +2064,8 @@ export async function parseGribBuffer(
   try {
     // Write buffer to temp file
     await writeFile(tempPath, Buffer.from(buffer));
-
-    // Parse the GRIB file
-    const result = await parseGribToMultiTimeVelocityJson(tempPath);
-
-    return result;
+    return await task(tempPath);
   } finally {
-    activeParses--;
     // Always clean up temp file
     try {
       await unlink(tempPath);
@@ -605,3 +2074,140 @@ export async function parseGribBuffer(
     }
   }
 }
+
+/**
+ * List every message of a GRIB file without decoding any values, so
+ * users can pick what to parse (see ParseOptions)
+ */
+export async function inspectGribBuffer(
+  buffer: ArrayBuffer,
+  filename: string,
+  options: ParseOptions = {}
+): Promise<GribInventory> {
+  return withTempFile(buffer, filename, async (gribPath) => {
+    // grib_ls lists any packing, so eccodes files need no repacking here
+    const { messages, skipped } = await openIntact(gribPath, async (path) =>
+      (await checkEccodes())
+        ? { messages: await getGribMetadata(path, options), skipped: [] }
+        : openBuiltinSource(path, options)
+    );
+
+    if (messages.length === 0) {
+      throw new Error("No messages found in GRIB file");
+    }
+
+    const first = messages[0];
+    return {
+      refTime: formatGribTime(first.dataDate, first.dataTime),
+      skippedMessages: skipped,
+      messages: messages.map((message) => {
+        const info = getParameterInfo(message.shortName);
+        const field = messageField(message);
+        return {
+          messageNumber: message.messageNumber,
+          shortName: message.shortName,
+          name: info.name,
+          units: info.units || message.units || "",
+          parameter: field?.parameter ?? null,
+          parameterName: field?.vector
+            ? (VECTOR_PARAMETERS[field.vector.parameter]?.name ??
+              field.parameter)
+            : field
+              ? info.name
+              : null,
+          typeOfLevel: message.typeOfLevel,
+          level: message.level,
+          forecastHour: message.stepRange,
+          startStep: message.startStep,
+          perturbationNumber: message.perturbationNumber,
+          edition: message.edition,
+          centre: message.centre,
+          centreName: centreName(message.centre),
+          grid: {
+            template: message.gridDefinitionTemplateNumber,
+            templateName: gridTemplateName(
+              message.gridDefinitionTemplateNumber
+            ),
+            ...messageGrid(message),
+          },
+          size: message.size,
+        };
+      }),
+    };
+  });
+}
+
+/**
+ * Write a new GRIB2 file holding the fields and steps picked (see
+ * ParseOptions), cropped to `bbox` and averaged down like parsed grids.
+ * Messages keep their order in the source file; projected and Gaussian
+ * grids come out on the lat/lon grid they are read onto.
+ */
+export async function subsetGribBuffer(
+  buffer: ArrayBuffer,
+  filename: string,
+  options: ParseOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  return withTempFile(buffer, filename, async (gribPath) => {
+    const source = await openSource(gribPath, options);
+    const first = source.messages[0];
+    const refTime = formatGribTime(first.dataDate, first.dataTime);
+    const groups = selectGroups(source.messages, options);
+    const fieldMessages = groups.flatMap((g) => [
+      ...g.messages,
+      ...g.u,
+      ...g.v,
+    ]);
+
+    // Decode one step at a time to bound memory on large files
+    const encoded = new Map<number, Uint8Array>();
+    for (const forecastHour of selectForecastHours(fieldMessages, options)) {
+      const decoded = source.readMessages(
+        fieldMessages.filter((m) => m.stepRange === forecastHour)
+      );
+      const step = encodeSubsetStep(
+        groups,
+        decoded,
+        refTime,
+        forecastHour,
+        options
+      );
+      for (const [messageNumber, bytes] of step) {
+        encoded.set(messageNumber, bytes);
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    if (encoded.size === 0) {
+      throw new Error("None of the selected fields can be written as GRIB2");
+    }
+
+    const parts = [...encoded.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, bytes]) => bytes);
+    const output = new Uint8Array(
+      parts.reduce((sum, part) => sum + part.length, 0)
+    );
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  });
+}
+
+/**
+ * Parse a GRIB file from a buffer (in-memory processing)
+ * Writes to a temp file, parses it, then deletes the temp file.
+ * Callers limit how many run at once (see jobs.ts).
+ */
+export async function parseGribBuffer(
+  buffer: ArrayBuffer,
+  filename: string,
+  options: ParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<GribDataset> {
+  return withTempFile(buffer, filename, (tempPath) =>
+    parseGribToDataset(tempPath, undefined, options, onProgress)
+  );
+}
@@ -0,0 +1,381 @@
+/**
+ * Projected Grids
+ *
+ * Rotated latitude/longitude (GRIB2 template 3.1, GRIB1 type 10) and
+ * Lambert conformal (template 3.30, GRIB1 type 3) grids cannot be drawn
+ * by leaflet-velocity, which expects a regular lat/lon grid. This module
+ * resamples them onto a regular grid covering the same area, and rotates
+ * grid-relative U/V components to earth-relative (east/north).
+ *
+ * The earth is treated as a sphere; oblate shapes use the mean radius.
+ */
+
+export type GridProjection =
+  | {
+      type: "rotated";
+      // Geographic position of the rotated grid's southern pole
+      southPoleLat: number;
+      southPoleLon: number;
+    }
+  | {
+      type: "lambert";
+      // Latitude where Dx/Dy are specified, and the orientation meridian
+      LaD: number;
+      LoV: number;
+      // Standard parallels (secant cone, or tangent when equal)
+      Latin1: number;
+      Latin2: number;
+      // Grid lengths in metres
+      Dx: number;
+      Dy: number;
+      earthRadius: number;
+    };
+
+/**
+ * The parts of a message's grid definition needed to resample it. For
+ * rotated grids the first point and increments are in rotated degrees;
+ * for Lambert grids the first point is geographic.
+ */
+export interface ProjectedGridDefinition {
+  projection: GridProjection;
+  Ni: number;
+  Nj: number;
+  latitudeOfFirstGridPoint: number;
+  longitudeOfFirstGridPoint: number;
+  iDirectionIncrement: number;
+  jDirectionIncrement: number;
+  scanningMode: number;
+}
+
+/**
+ * Regular lat/lon grid (rows north to south from la1, columns west to
+ * east from lo1)
+ */
+export interface LatLonGrid {
+  nx: number;
+  ny: number;
+  la1: number;
+  lo1: number;
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Map projection between geographic coordinates and a plane in which
+ * the grid is regular
+ */
+interface PlaneProjection {
+  forward(lat: number, lon: number): [number, number];
+  inverse(x: number, y: number): [number, number];
+  // Plane units per unit of the grid's native spacing
+  xStep: number;
+  yStep: number;
+  // Native grid spacing in degrees of latitude
+  stepDegrees: number;
+  // Rotated grids live on a sphere: x lengths shrink with cos(y)
+  spherical: boolean;
+}
+
+const DEG = Math.PI / 180;
+
+// Cap on resampled grid size relative to the source grid
+const MAX_UPSAMPLING = 4;
+
+function wrapDegrees(lon: number, centre: number): number {
+  return lon - 360 * Math.round((lon - centre) / 360);
+}
+
+function rotatedProjection(
+  projection: Extract<GridProjection, { type: "rotated" }>,
+  definition: ProjectedGridDefinition
+): PlaneProjection {
+  // Geographic -> rotated: turn the southern pole's meridian to 0, then
+  // tilt about the y axis so the pole lands on (0, 0, -1)
+  const poleLon = projection.southPoleLon;
+  const beta = (projection.southPoleLat + 90) * DEG;
+  const cosB = Math.cos(beta);
+  const sinB = Math.sin(beta);
+
+  return {
+    forward(lat, lon) {
+      const phi = lat * DEG;
+      const lambda = (lon - poleLon) * DEG;
+      const x = Math.cos(phi) * Math.cos(lambda);
+      const y = Math.cos(phi) * Math.sin(lambda);
+      const z = Math.sin(phi);
+      const xr = x * cosB + z * sinB;
+      const zr = -x * sinB + z * cosB;
+      return [
+        Math.atan2(y, xr) / DEG,
+        Math.asin(Math.max(-1, Math.min(1, zr))) / DEG,
+      ];
+    },
+    inverse(rotLon, rotLat) {
+      const phi = rotLat * DEG;
+      const lambda = rotLon * DEG;
+      const xr = Math.cos(phi) * Math.cos(lambda);
+      const y = Math.cos(phi) * Math.sin(lambda);
+      const zr = Math.sin(phi);
+      const x = xr * cosB - zr * sinB;
+      const z = xr * sinB + zr * cosB;
+      return [
+        Math.asin(Math.max(-1, Math.min(1, z))) / DEG,
+        Math.atan2(y, x) / DEG + poleLon,
+      ];
+    },
+    xStep: definition.iDirectionIncrement,
+    yStep: definition.jDirectionIncrement,
+    stepDegrees: Math.min(
+      definition.iDirectionIncrement,
+      definition.jDirectionIncrement
+    ),
+    spherical: true,
+  };
+}
+
+function lambertProjection(
+  projection: Extract<GridProjection, { type: "lambert" }>
+): PlaneProjection {
+  const R = projection.earthRadius;
+  const phi1 = projection.Latin1 * DEG;
+  const phi2 = projection.Latin2 * DEG;
+  const lambda0 = projection.LoV * DEG;
+  const t = (phi: number) => Math.tan(Math.PI / 4 + phi / 2);
+
+  const n =
+    Math.abs(phi1 - phi2) < 1e-10
+      ? Math.sin(phi1)
+      : Math.log(Math.cos(phi1) / Math.cos(phi2)) / Math.log(t(phi2) / t(phi1));
+  const F = (Math.cos(phi1) * Math.pow(t(phi1), n)) / n;
+  const rho = (phi: number) => (R * F) / Math.pow(t(phi), n);
+
+  // Grid lengths are true at LaD; the plane is true at the standard parallels
+  const ladPhi = projection.LaD * DEG;
+  const scaleAtLaD = (n * rho(ladPhi)) / (R * Math.cos(ladPhi));
+
+  return {
+    forward(lat, lon) {
+      const r = rho(lat * DEG);
+      const theta = n * (wrapDegrees(lon - projection.LoV, 0) * DEG);
+      return [r * Math.sin(theta), -r * Math.cos(theta)];
+    },
+    inverse(x, y) {
+      const r = Math.sign(n) * Math.hypot(x, y);
+      const theta = n > 0 ? Math.atan2(x, -y) : Math.atan2(-x, y);
+      const lat =
+        r === 0
+          ? Math.sign(n) * 90
+          : (2 * Math.atan(Math.pow((R * F) / r, 1 / n)) - Math.PI / 2) / DEG;
+      return [lat, (theta / n + lambda0) / DEG];
+    },
+    xStep: projection.Dx / scaleAtLaD,
+    yStep: projection.Dy / scaleAtLaD,
+    stepDegrees: Math.min(projection.Dx, projection.Dy) / (R * DEG),
+    spherical: false,
+  };
+}
+
+function planeProjection(definition: ProjectedGridDefinition): PlaneProjection {
+  const { projection } = definition;
+  return projection.type === "rotated"
+    ? rotatedProjection(projection, definition)
+    : lambertProjection(projection);
+}
+
+/**
+ * Resampling plan for a projected grid: the target lat/lon grid, the
+ * fractional source position of each target point, and the angle of the
+ * grid's x axis from east at that point
+ */
+interface ResamplePlan {
+  target: LatLonGrid;
+  columns: Float32Array;
+  rows: Float32Array;
+  angles: Float32Array;
+}
+
+// Files usually repeat one grid across all messages
+const planCache = new Map<string, ResamplePlan>();
+const MAX_CACHED_PLANS = 16;
+
+function planKey(definition: ProjectedGridDefinition): string {
+  return JSON.stringify([
+    definition.projection,
+    definition.Ni,
+    definition.Nj,
+    definition.latitudeOfFirstGridPoint,
+    definition.longitudeOfFirstGridPoint,
+    definition.iDirectionIncrement,
+    definition.jDirectionIncrement,
+    definition.scanningMode,
+  ]);
+}
+
+function buildPlan(definition: ProjectedGridDefinition): ResamplePlan {
+  const { Ni, Nj, scanningMode } = definition;
+  const plane = planeProjection(definition);
+
+  // Plane position of the first point. Rotated grids already give it in
+  // rotated degrees; Lambert grids give it geographically.
+  const [x0, y0] =
+    definition.projection.type === "rotated"
+      ? [
+          definition.longitudeOfFirstGridPoint,
+          definition.latitudeOfFirstGridPoint,
+        ]
+      : plane.forward(
+          definition.latitudeOfFirstGridPoint,
+          definition.longitudeOfFirstGridPoint
+        );
+
+  // Values arrive ordered north to south, west to east (orderNorthToSouth),
+  // so find the plane position of the top-left point
+  const xLeft = scanningMode & 0x80 ? x0 - (Ni - 1) * plane.xStep : x0;
+  const yTop = scanningMode & 0x40 ? y0 + (Nj - 1) * plane.yStep : y0;
+
+  // Geographic extent of the source grid
+  const centre = plane.inverse(
+    xLeft + ((Ni - 1) / 2) * plane.xStep,
+    yTop - ((Nj - 1) / 2) * plane.yStep
+  );
+  let north = -90;
+  let south = 90;
+  let west = Infinity;
+  let east = -Infinity;
+  for (let r = 0; r < Nj; r++) {
+    for (let c = 0; c < Ni; c++) {
+      const [lat, rawLon] = plane.inverse(
+        xLeft + c * plane.xStep,
+        yTop - r * plane.yStep
+      );
+      const lon = wrapDegrees(rawLon, centre[1]);
+      if (lat > north) north = lat;
+      if (lat < south) south = lat;
+      if (lon < west) west = lon;
+      if (lon > east) east = lon;
+    }
+  }
+
+  // Keep roughly the native resolution: degrees of latitude per grid
+  // length, widened in longitude towards the poles
+  const midLat = ((north + south) / 2) * DEG;
+  let dy = plane.stepDegrees;
+  let dx = plane.stepDegrees / Math.max(0.2, Math.cos(midLat));
+
+  let nx = Math.floor((east - west) / dx) + 1;
+  let ny = Math.floor((north - south) / dy) + 1;
+  const scale = Math.sqrt((nx * ny) / (MAX_UPSAMPLING * Ni * Nj));
+  if (scale > 1) {
+    dx *= scale;
+    dy *= scale;
+    nx = Math.floor((east - west) / dx) + 1;
+    ny = Math.floor((north - south) / dy) + 1;
+  }
+
+  const lo1 = wrapDegrees(west, 0);
+  const target: LatLonGrid = { nx, ny, la1: north, lo1, dx, dy };
+
+  const columns = new Float32Array(nx * ny);
+  const rows = new Float32Array(nx * ny);
+  const angles = new Float32Array(nx * ny);
+  // Small longitude step for measuring the direction of east on the grid
+  const eps = 0.01;
+
+  for (let j = 0; j < ny; j++) {
+    const lat = north - j * dy;
+    for (let i = 0; i < nx; i++) {
+      const lon = lo1 + i * dx;
+      const index = j * nx + i;
+      let [x, y] = plane.forward(lat, lon);
+      let [xe, ye] = plane.forward(lat, lon + eps);
+
+      if (plane.spherical) {
+        // Rotated longitudes wrap; keep them next to the grid's own
+        x = wrapDegrees(x, xLeft + ((Ni - 1) / 2) * plane.xStep);
+        xe = wrapDegrees(xe, x);
+        angles[index] = Math.atan2(ye - y, (xe - x) * Math.cos(y * DEG));
+      } else {
+        angles[index] = Math.atan2(ye - y, xe - x);
+      }
+
+      columns[index] = (x - xLeft) / plane.xStep;
+      rows[index] = (yTop - y) / plane.yStep;
+    }
+  }
+
+  return { target, columns, rows, angles };
+}
+
+function resamplePlan(definition: ProjectedGridDefinition): ResamplePlan {
+  const key = planKey(definition);
+  let plan = planCache.get(key);
+  if (!plan) {
+    plan = buildPlan(definition);
+    if (planCache.size >= MAX_CACHED_PLANS) planCache.clear();
+    planCache.set(key, plan);
+  }
+  return plan;
+}
+
+/**
+ * Regular lat/lon grid a projected grid is resampled onto
+ */
+export function projectedTargetGrid(
+  definition: ProjectedGridDefinition
+): LatLonGrid {
+  return resamplePlan(definition).target;
+}
+
+/**
+ * Bilinearly resample values (ordered north to south, west to east in
+ * the projection plane) onto the target grid. Points outside the source
+ * grid, or next to missing values, become NaN.
+ */
+export function resampleToLatLon(
+  values: Float32Array,
+  definition: ProjectedGridDefinition
+): Float32Array {
+  const { Ni, Nj } = definition;
+  const { columns, rows } = resamplePlan(definition);
+  const resampled = new Float32Array(columns.length);
+
+  for (let k = 0; k < columns.length; k++) {
+    const c = columns[k];
+    const r = rows[k];
+    if (!(c >= 0 && r >= 0 && c <= Ni - 1 && r <= Nj - 1)) {
+      resampled[k] = NaN;
+      continue;
+    }
+    const c0 = Math.min(Math.floor(c), Math.max(Ni - 2, 0));
+    const r0 = Math.min(Math.floor(r), Math.max(Nj - 2, 0));
+    const c1 = Math.min(c0 + 1, Ni - 1);
+    const r1 = Math.min(r0 + 1, Nj - 1);
+    const fc = c - c0;
+    const fr = r - r0;
+    const top = values[r0 * Ni + c0] * (1 - fc) + values[r0 * Ni + c1] * fc;
+    const bottom = values[r1 * Ni + c0] * (1 - fc) + values[r1 * Ni + c1] * fc;
+    resampled[k] = top * (1 - fr) + bottom * fr;
+  }
+
+  return resampled;
+}
+
+/**
+ * Rotate resampled grid-relative U/V components (along the grid's x and
+ * y axes) to earth-relative east/north components, in place
+ */
+export function rotateToEarth(
+  u: Float32Array,
+  v: Float32Array,
+  definition: ProjectedGridDefinition
+): void {
+  const { angles } = resamplePlan(definition);
+  for (let k = 0; k < angles.length; k++) {
+    const cos = Math.cos(angles[k]);
+    const sin = Math.sin(angles[k]);
+    const ug = u[k];
+    const vg = v[k];
+    u[k] = ug * cos + vg * sin;
+    v[k] = -ug * sin + vg * cos;
+  }
+}
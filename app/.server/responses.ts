@@ -0,0 +1,176 @@
+/**
+ * API Responses
+ *
+ * Helpers shared by the API routes for sending datasets, whose field
+ * values are typed arrays on the server, as JSON or as a stream of
+ * server-sent events, with grids in JSON or in the binary format (see
+ * binaryDataset.ts) when the request accepts it.
+ */
+
+import { promisify } from "util";
+import { gzip, gzipSync } from "zlib";
+import {
+  BINARY_DATASET_TYPE,
+  encodeBinaryDataset,
+  toBase64,
+  type BinaryPrecision,
+} from "../lib/binaryDataset";
+
+// Field values are typed arrays on the server; send them as JSON arrays
+// (missing values, NaN, become null)
+export function jsonReplacer(_key: string, value: unknown) {
+  return value instanceof Float32Array ? Array.from(value) : value;
+}
+
+// Helper to return JSON responses
+export function jsonResponse(body: object, status = 200) {
+  return new Response(JSON.stringify(body, jsonReplacer), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * File download, named `filename` when saved
+ */
+export function downloadResponse(
+  body: BodyInit,
+  contentType: string,
+  filename: string,
+  headers: Record<string, string> = {}
+) {
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename.replace(/"/g, "")}"`,
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Successful response around already serialized dataset JSON (e.g. from
+ * the parse cache), as `data` next to the other fields
+ */
+export function datasetResponse(
+  datasetJson: string,
+  fields: object = {},
+  headers: Record<string, string> = {}
+) {
+  const body = JSON.stringify({ success: true, ...fields }).slice(0, -1);
+  return new Response(`${body},"data":${datasetJson}}`, {
+    headers: { "Content-Type": "application/json", Vary: "Accept", ...headers },
+  });
+}
+
+/**
+ * Grid precision of the binary format when the request accepts it
+ * (`application/vnd.griblet.dataset`, optionally with
+ * `;precision=float32`), otherwise null for JSON
+ */
+export function acceptedBinaryPrecision(
+  request: Request
+): BinaryPrecision | null {
+  const range = (request.headers.get("Accept") ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(BINARY_DATASET_TYPE));
+  if (!range) return null;
+  return /;\s*precision=float32/.test(range) ? "float32" : "int16";
+}
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * gzip-compressed binary encoding of a value holding grids, compressed
+ * off the event loop as whole datasets run to tens of MB
+ */
+export async function binaryPayload(
+  value: unknown,
+  precision: BinaryPrecision
+): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await gzipAsync(encodeBinaryDataset(value, precision)));
+}
+
+/**
+ * Binary response around an already encoded dataset (see binaryPayload,
+ * e.g. from the parse cache). The payload is sent gzip-encoded, which
+ * clients undo.
+ */
+export function binaryDatasetResponse(
+  payload: Uint8Array<ArrayBuffer>,
+  headers: Record<string, string> = {}
+) {
+  return new Response(payload, {
+    headers: {
+      "Content-Type": BINARY_DATASET_TYPE,
+      "Content-Encoding": "gzip",
+      Vary: "Accept",
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Base64 text of a binary payload, for sending inside server-sent events.
+ * Events hold one time step and must go out in order, so they are
+ * compressed right away.
+ */
+export function binaryPayloadText(
+  value: unknown,
+  precision: BinaryPrecision
+): string {
+  return toBase64(gzipSync(encodeBinaryDataset(value, precision)));
+}
+
+/**
+ * Server-sent event stream: `send` writes an event named after its
+ * `type`, with the whole event as JSON data. Events sent after the
+ * client goes away are dropped.
+ */
+export function eventStream(): {
+  response: Response;
+  send: (event: { type: string }) => void;
+  close: () => void;
+} {
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+  let open = true;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+    cancel() {
+      open = false;
+    },
+  });
+
+  const send = (event: { type: string }) => {
+    if (!open) return;
+    const data = JSON.stringify(event, jsonReplacer);
+    controller.enqueue(
+      encoder.encode(`event: ${event.type}\ndata: ${data}\n\n`)
+    );
+  };
+  const close = () => {
+    if (!open) return;
+    open = false;
+    controller.close();
+  };
+
+  return {
+    response: new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        // no-transform keeps compression middleware (react-router-serve
+        // gzips every route) from holding small events back, and
+        // X-Accel-Buffering does the same for proxies such as nginx
+        "Cache-Control": "no-cache, no-transform",
+        "X-Accel-Buffering": "no",
+      },
+    }),
+    send,
+    close,
+  };
+}
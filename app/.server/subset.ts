@@ -0,0 +1,261 @@
+/**
+ * Grid Subsets
+ *
+ * Cropping decoded grids to a bounding box and averaging them down to a
+ * coarser spacing, so clients that only care about one bay (or can't
+ * draw a 0.25° grid) get a smaller dataset. Each output point is the
+ * area-weighted mean of the block of points it replaces: U and V are
+ * averaged as vectors, directions (degrees) around the circle, other
+ * scalars as plain values. Missing points are left out of the means.
+ */
+
+import type { VelocityComponent, VelocityData, VelocityHeader } from "./parser";
+import { isGlobalGrid } from "../lib/contours";
+import { normalizeLongitude, regionWidth, type Region } from "../lib/regions";
+
+/**
+ * Which part of each grid to keep
+ */
+export interface GridSubset {
+  // Area to crop grids to
+  bbox?: Region;
+  // Average blocks of stride x stride points into one
+  stride?: number;
+  // Or average down to about this spacing in degrees
+  targetResolution?: number;
+}
+
+// Slack for grid points sitting on the box edges
+const EPSILON = 1e-6;
+
+const DEGREES = Math.PI / 180;
+
+/**
+ * Source rows and columns kept, and the block size averaged into each
+ * output point
+ */
+interface SubsetPlan {
+  rowStart: number;
+  rows: number;
+  // Columns wrap around global grids
+  columnStart: number;
+  columns: number;
+  rowStep: number;
+  columnStep: number;
+}
+
+export function hasGridSubset(subset: GridSubset): boolean {
+  return (
+    subset.bbox !== undefined ||
+    (subset.stride ?? 1) > 1 ||
+    subset.targetResolution !== undefined
+  );
+}
+
+function mod(value: number, n: number): number {
+  return ((value % n) + n) % n;
+}
+
+function planSubset(header: VelocityHeader, subset: GridSubset): SubsetPlan {
+  const { nx, ny, la1, lo1, dx, dy } = header;
+  let rowStart = 0;
+  let rows = ny;
+  let columnStart = 0;
+  let columns = nx;
+
+  if (subset.bbox) {
+    const { north, south, west } = subset.bbox;
+    rowStart = Math.max(0, Math.ceil((la1 - north) / dy - EPSILON));
+    const rowEnd = Math.min(ny - 1, Math.floor((la1 - south) / dy + EPSILON));
+    rows = rowEnd - rowStart + 1;
+
+    // Columns whose longitude falls in the box, going east from its
+    // west edge
+    const width = regionWidth(subset.bbox);
+    const inside = (i: number) =>
+      mod(lo1 + i * dx - west, 360) <= width + EPSILON;
+    if (isGlobalGrid(header)) {
+      columnStart = mod(Math.ceil(mod(west - lo1, 360) / dx - EPSILON), nx);
+    } else {
+      columnStart = 0;
+      while (columnStart < nx && !inside(columnStart)) columnStart++;
+    }
+    columns = 0;
+    while (
+      columns < nx &&
+      (isGlobalGrid(header) || columnStart + columns < nx) &&
+      inside((columnStart + columns) % nx)
+    ) {
+      columns++;
+    }
+
+    if (rows <= 0 || columns <= 0) {
+      throw new Error("The bounding box does not overlap the grid");
+    }
+  }
+
+  const blockSize = (spacing: number) =>
+    subset.targetResolution !== undefined
+      ? Math.max(1, Math.round(subset.targetResolution / spacing))
+      : Math.max(1, Math.floor(subset.stride ?? 1));
+
+  return {
+    rowStart,
+    rows,
+    columnStart,
+    columns,
+    rowStep: blockSize(dy),
+    columnStep: blockSize(dx),
+  };
+}
+
+/**
+ * Header of the subset grid. Each output point sits at the centre of
+ * its block.
+ */
+function subsetHeader(
+  header: VelocityHeader,
+  plan: SubsetPlan
+): VelocityHeader {
+  const nx = Math.ceil(plan.columns / plan.columnStep);
+  const ny = Math.ceil(plan.rows / plan.rowStep);
+  const dx = header.dx * plan.columnStep;
+  const dy = header.dy * plan.rowStep;
+  const la1 = header.la1 - (plan.rowStart + (plan.rowStep - 1) / 2) * header.dy;
+  const lo1 = normalizeLongitude(
+    header.lo1 + (plan.columnStart + (plan.columnStep - 1) / 2) * header.dx
+  );
+  return {
+    ...header,
+    nx,
+    ny,
+    la1,
+    la2: la1 - (ny - 1) * dy,
+    lo1,
+    lo2: lo1 + (nx - 1) * dx,
+    dx,
+    dy,
+    numberPoints: nx * ny,
+  };
+}
+
+/**
+ * Weighted sums over each output block: `add` is called with each valid
+ * source point's index and its area weight (the cosine of its latitude)
+ */
+function forEachBlock(
+  header: VelocityHeader,
+  plan: SubsetPlan,
+  visit: (
+    output: number,
+    points: (add: (index: number, weight: number) => void) => void
+  ) => void
+): void {
+  const nx = Math.ceil(plan.columns / plan.columnStep);
+  const ny = Math.ceil(plan.rows / plan.rowStep);
+
+  for (let j = 0; j < ny; j++) {
+    const firstRow = j * plan.rowStep;
+    const lastRow = Math.min(plan.rows, firstRow + plan.rowStep);
+    for (let i = 0; i < nx; i++) {
+      const firstColumn = i * plan.columnStep;
+      const lastColumn = Math.min(plan.columns, firstColumn + plan.columnStep);
+      visit(j * nx + i, (add) => {
+        for (let r = firstRow; r < lastRow; r++) {
+          const row = plan.rowStart + r;
+          const weight = Math.max(
+            0,
+            Math.cos((header.la1 - row * header.dy) * DEGREES)
+          );
+          for (let c = firstColumn; c < lastColumn; c++) {
+            const column = (plan.columnStart + c) % header.nx;
+            add(row * header.nx + column, weight);
+          }
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Value at a point, NaN where missing (null once sent as JSON)
+ */
+function valueAt(component: VelocityComponent, index: number): number {
+  return component.data[index] ?? NaN;
+}
+
+/**
+ * Crop and average a scalar grid. `circular` averages directions in
+ * degrees as unit vectors, so 350° and 10° average to 0°, not 180°.
+ */
+export function subsetScalar(
+  component: VelocityComponent,
+  subset: GridSubset,
+  circular = false
+): VelocityComponent {
+  const plan = planSubset(component.header, subset);
+  const header = subsetHeader(component.header, plan);
+  const data = new Float32Array(header.nx * header.ny);
+
+  forEachBlock(component.header, plan, (output, points) => {
+    let sum = 0;
+    let sumSin = 0;
+    let sumCos = 0;
+    let total = 0;
+    points((index, weight) => {
+      const value = valueAt(component, index);
+      if (Number.isNaN(value)) return;
+      if (circular) {
+        sumSin += weight * Math.sin(value * DEGREES);
+        sumCos += weight * Math.cos(value * DEGREES);
+      } else {
+        sum += weight * value;
+      }
+      total += weight;
+    });
+    data[output] =
+      total === 0
+        ? NaN
+        : circular
+          ? mod(Math.atan2(sumSin, sumCos) / DEGREES, 360)
+          : sum / total;
+  });
+
+  return { header, data };
+}
+
+/**
+ * Crop and average a vector grid, averaging U and V together so points
+ * missing either component are left out
+ */
+export function subsetVector(
+  [u, v]: VelocityData,
+  subset: GridSubset
+): VelocityData {
+  const plan = planSubset(u.header, subset);
+  const uHeader = subsetHeader(u.header, plan);
+  const vHeader = subsetHeader(v.header, plan);
+  const uData = new Float32Array(uHeader.nx * uHeader.ny);
+  const vData = new Float32Array(uHeader.nx * uHeader.ny);
+
+  forEachBlock(u.header, plan, (output, points) => {
+    let sumU = 0;
+    let sumV = 0;
+    let total = 0;
+    points((index, weight) => {
+      const ui = valueAt(u, index);
+      const vi = valueAt(v, index);
+      if (Number.isNaN(ui) || Number.isNaN(vi)) return;
+      sumU += weight * ui;
+      sumV += weight * vi;
+      total += weight;
+    });
+    uData[output] = total === 0 ? NaN : sumU / total;
+    vData[output] = total === 0 ? NaN : sumV / total;
+  });
+
+  return [
+    { header: uHeader, data: uData },
+    { header: vHeader, data: vData },
+  ];
+}
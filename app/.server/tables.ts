@@ -0,0 +1,136 @@
+/**
+ * GRIB Code Tables
+ *
+ * Names for the identification codes carried in every message (centre,
+ * discipline, level type, grid template), used to describe files in
+ * velocity headers and the viewer's file info panel.
+ */
+
+// WMO common code table C-11 (originating centres), common NWP centres
+const CENTRE_NAMES: Record<number, string> = {
+  7: "US National Weather Service - NCEP(WMC)",
+  8: "US National Weather Service Telecommunications Gateway",
+  34: "Japan Meteorological Agency",
+  54: "Canadian Meteorological Centre",
+  58: "US Navy - Fleet Numerical Meteorology and Oceanography Center",
+  74: "UK Meteorological Office - Exeter",
+  78: "Deutscher Wetterdienst (DWD), Offenbach",
+  80: "Italian Air Force Meteorological Service, Rome",
+  82: "Swedish Meteorological and Hydrological Institute, Norrköping",
+  84: "Météo-France, Toulouse",
+  85: "Météo-France, Toulouse",
+  86: "Finnish Meteorological Institute, Helsinki",
+  88: "Norwegian Meteorological Institute, Oslo",
+  94: "Danish Meteorological Institute, Copenhagen",
+  98: "European Centre for Medium-Range Weather Forecasts",
+  99: "Royal Netherlands Meteorological Institute, De Bilt",
+};
+
+// Code table 0.0
+const DISCIPLINE_NAMES: Record<number, string> = {
+  0: "Meteorological products",
+  1: "Hydrological products",
+  2: "Land surface products",
+  3: "Satellite remote sensing products",
+  4: "Space weather products",
+  10: "Oceanographic products",
+};
+
+// Code table 3.1
+const GRID_TEMPLATE_NAMES: Record<number, string> = {
+  0: "Latitude_Longitude",
+  1: "Rotated_Latitude_Longitude",
+  10: "Mercator",
+  20: "Polar_Stereographic",
+  30: "Lambert_Conformal",
+  40: "Gaussian_Latitude_Longitude",
+};
+
+// GRIB1 data representation types (table 6) as GRIB2 grid templates
+export const GRIB1_GRID_TEMPLATES: Record<number, number> = {
+  0: 0,
+  1: 10,
+  3: 30,
+  4: 40,
+  5: 20,
+  10: 1,
+};
+
+// eccodes typeOfLevel to code table 4.5 fixed surface types
+const LEVEL_TYPES: Record<string, { code: number; name: string }> = {
+  surface: { code: 1, name: "Ground or water surface" },
+  isobaricInhPa: { code: 100, name: "Isobaric surface" },
+  meanSea: { code: 101, name: "Mean sea level" },
+  heightAboveSea: {
+    code: 102,
+    name: "Specific altitude above mean sea level",
+  },
+  heightAboveGround: {
+    code: 103,
+    name: "Specified height level above ground",
+  },
+};
+
+// Generating processes of well-known models, keyed by "centre:process"
+// (NCEP ON388 table A); other centres name their main model
+const MODEL_NAMES: Record<string, string> = {
+  "7:10": "WAVEWATCH III",
+  "7:11": "WAVEWATCH III (multi-grid)",
+  "7:81": "GFS (analysis)",
+  "7:84": "NAM",
+  "7:89": "NAM (NMM)",
+  "7:96": "GFS",
+  "7:107": "GEFS",
+  "7:116": "GFS (forecast, 1 degree)",
+};
+
+const CENTRE_MODELS: Record<number, string> = {
+  34: "GSM",
+  54: "GEM",
+  58: "NAVGEM",
+  74: "UM",
+  78: "ICON",
+  84: "ARPEGE",
+  85: "ARPEGE",
+  98: "IFS",
+};
+
+export function centreName(centre: number): string {
+  return CENTRE_NAMES[centre] ?? `Centre ${centre}`;
+}
+
+export function disciplineName(discipline: number): string {
+  return DISCIPLINE_NAMES[discipline] ?? `Discipline ${discipline}`;
+}
+
+export function gridTemplateName(template: number): string {
+  return GRID_TEMPLATE_NAMES[template] ?? `Grid template 3.${template}`;
+}
+
+/**
+ * Fixed surface type code and name for an eccodes typeOfLevel. Level
+ * types outside the catalogue are named "level<code>" by the decoders.
+ */
+export function levelType(typeOfLevel: string): {
+  code: number;
+  name: string;
+} {
+  const known = LEVEL_TYPES[typeOfLevel];
+  if (known) return known;
+  const code = Number(typeOfLevel.replace(/^level/, ""));
+  return {
+    code: Number.isFinite(code) ? code : 255,
+    name: typeOfLevel,
+  };
+}
+
+/**
+ * Model name from the originating centre and generating process
+ */
+export function modelName(centre: number, generatingProcess: number): string {
+  return (
+    MODEL_NAMES[`${centre}:${generatingProcess}`] ??
+    CENTRE_MODELS[centre] ??
+    `Process ${generatingProcess}`
+  );
+}
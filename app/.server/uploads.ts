@@ -0,0 +1,163 @@
+/**
+ * GRIB Uploads
+ *
+ * Checks on files posted to the API routes before they are read: that
+ * there is one, that it is not too large and that it starts like a GRIB
+ * file, whatever it is named. Also reads the subset and selection
+ * options posted with them, shared by the routes that parse or cut down
+ * files.
+ */
+
+import type { ParseOptions } from "./parser";
+import { parseRegion } from "../lib/regions";
+import { SNIFF_LENGTH, looksLikeGrib } from "../lib/gribCheck";
+
+// Max file size: 50MB
+export const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * The GRIB file in a form's "file" field, or an error message when it
+ * is missing or not acceptable
+ */
+export async function readGribUpload(
+  formData: FormData
+): Promise<File | string> {
+  const file = formData.get("file");
+
+  if (!file || !(file instanceof File)) {
+    return "No file provided";
+  }
+
+  // Validate file size
+  if (file.size > MAX_FILE_SIZE) {
+    return `File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+  }
+
+  // Validate file content: renamed files of other kinds never reach
+  // the decoders
+  const head = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+  if (!looksLikeGrib(head)) {
+    return "Not a GRIB file: no GRIB message found at the start of the file";
+  }
+
+  return file;
+}
+
+// Largest block averaged into one point
+const MAX_STRIDE = 50;
+
+// Accepted target resolutions for averaging grids down, in degrees
+const MIN_TARGET_RESOLUTION = 0.01;
+const MAX_TARGET_RESOLUTION = 10;
+
+/**
+ * Number in a form field, undefined when absent or empty (NaN when not
+ * a number)
+ */
+function numberField(formData: FormData, name: string): number | undefined {
+  const value = formData.get(name);
+  return typeof value === "string" && value.trim() !== ""
+    ? Number(value)
+    : undefined;
+}
+
+/**
+ * Subset options from the form ("bbox", "stride" or "targetResolution",
+ * "fromHour" and "toHour"), or an error message when invalid
+ */
+export function readSubsetOptions(formData: FormData): ParseOptions | string {
+  const options: ParseOptions = {};
+
+  const bboxValue = formData.get("bbox");
+  if (typeof bboxValue === "string" && bboxValue.trim() !== "") {
+    const bbox = parseRegion(bboxValue);
+    if (!bbox) {
+      return "Bounding box must be west,south,east,north in degrees, with south below north, or a preset region name";
+    }
+    options.bbox = bbox;
+  }
+
+  const stride = numberField(formData, "stride");
+  const targetResolution = numberField(formData, "targetResolution");
+  if (stride !== undefined && targetResolution !== undefined) {
+    return "Give either a stride or a target resolution, not both";
+  }
+  if (stride !== undefined) {
+    if (!(Number.isInteger(stride) && stride >= 1 && stride <= MAX_STRIDE)) {
+      return `Stride must be a whole number from 1 to ${MAX_STRIDE}`;
+    }
+    options.stride = stride;
+  }
+  if (targetResolution !== undefined) {
+    if (
+      !(
+        targetResolution >= MIN_TARGET_RESOLUTION &&
+        targetResolution <= MAX_TARGET_RESOLUTION
+      )
+    ) {
+      return `Target resolution must be between ${MIN_TARGET_RESOLUTION} and ${MAX_TARGET_RESOLUTION} degrees`;
+    }
+    options.targetResolution = targetResolution;
+  }
+
+  const fromHour = numberField(formData, "fromHour");
+  const toHour = numberField(formData, "toHour");
+  if (
+    (fromHour !== undefined && !Number.isFinite(fromHour)) ||
+    (toHour !== undefined && !Number.isFinite(toHour))
+  ) {
+    return "Forecast hours must be numbers";
+  }
+  if (fromHour !== undefined && toHour !== undefined && fromHour > toHour) {
+    return "The first forecast hour must not be after the last";
+  }
+  if (fromHour !== undefined) options.fromHour = fromHour;
+  if (toHour !== undefined) options.toHour = toHour;
+
+  return options;
+}
+
+/**
+ * Comma-separated list in a form field, undefined when absent or empty
+ */
+function listField(formData: FormData, name: string): string[] | undefined {
+  const value = formData.get(name);
+  if (typeof value !== "string") return undefined;
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Fields and steps picked from the inventory (see /api/inspect):
+ * comma-separated "parameters", "levels" and "forecastHours", or an
+ * error message when invalid
+ */
+export function readSelectionOptions(
+  formData: FormData
+): ParseOptions | string {
+  const options: ParseOptions = {};
+
+  const parameters = listField(formData, "parameters");
+  if (parameters) options.parameters = parameters;
+
+  const levels = listField(formData, "levels");
+  if (levels) {
+    if (!levels.every((level) => /^\w+:-?[\d.]+$/.test(level))) {
+      return "Levels must be given as typeOfLevel:level";
+    }
+    options.levels = levels;
+  }
+
+  const forecastHours = listField(formData, "forecastHours")?.map(Number);
+  if (forecastHours) {
+    if (!forecastHours.every(Number.isFinite)) {
+      return "Forecast hours must be numbers";
+    }
+    options.forecastHours = forecastHours;
+  }
+
+  return options;
+}
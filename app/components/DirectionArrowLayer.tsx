@@ -0,0 +1,96 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import type { VelocityComponent } from "../.server/parser";
+import { isGlobalGrid } from "../lib/contours";
+
+interface DirectionArrowLayerProps {
+  // Direction in degrees true that waves come from (GRIB convention)
+  data: VelocityComponent;
+}
+
+// Approximate screen distance between arrows, in pixels
+const ARROW_SPACING_PX = 48;
+
+function arrowIcon(direction: number): L.DivIcon {
+  // Point the arrow the way the waves travel
+  const rotation = (direction + 180) % 360;
+  return L.divIcon({
+    className: "",
+    html: `<svg width="18" height="18" viewBox="0 0 18 18" style="transform: rotate(${rotation}deg)"><path d="M9 2 L13 9 L10 8.5 L10 16 L8 16 L8 8.5 L5 9 Z" fill="#f8fafc" fill-opacity="0.85" stroke="#0f172a" stroke-width="0.75"/></svg>`,
+    iconSize: [18, 18],
+    iconAnchor: [9, 9],
+  });
+}
+
+/**
+ * Arrows showing a direction field, thinned to a fixed screen spacing and
+ * redrawn for the visible area whenever the map moves
+ */
+export function DirectionArrowLayer({ data }: DirectionArrowLayerProps) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!data || !map) return;
+
+    const { nx, ny, la1, lo1, dx, dy } = data.header;
+    const global = isGlobalGrid(data.header);
+    const group = L.layerGroup().addTo(map);
+
+    const draw = () => {
+      group.clearLayers();
+
+      // Grid cells per arrow at the current zoom
+      const pixelsPerDegree = (256 * Math.pow(2, map.getZoom())) / 360;
+      const stride = Math.max(
+        1,
+        Math.ceil(ARROW_SPACING_PX / (pixelsPerDegree * Math.min(dx, dy)))
+      );
+
+      const bounds = map.getBounds().pad(0.1);
+      // Draw the copy of the grid nearest the view, so arrows stay in
+      // place when the map is panned across the antimeridian
+      const gridCentre = lo1 + ((nx - 1) * dx) / 2;
+      const west =
+        lo1 + 360 * Math.round((bounds.getCenter().lng - gridCentre) / 360);
+      const jStart = Math.max(0, Math.floor((la1 - bounds.getNorth()) / dy));
+      const jEnd = Math.min(ny - 1, Math.ceil((la1 - bounds.getSouth()) / dy));
+      // Global grids repeat, so columns wrap instead of stopping at the seam
+      const iStart = Math.floor((bounds.getWest() - west) / dx);
+      const iEnd = Math.ceil((bounds.getEast() - west) / dx);
+      const iMin = global ? iStart : Math.max(0, iStart);
+      const iMax = global ? iEnd : Math.min(nx - 1, iEnd);
+
+      // Align to the stride so arrows stay put while panning
+      for (
+        let j = Math.ceil(jStart / stride) * stride;
+        j <= jEnd;
+        j += stride
+      ) {
+        for (
+          let i = Math.ceil(iMin / stride) * stride;
+          i <= iMax;
+          i += stride
+        ) {
+          const value = data.data[j * nx + (((i % nx) + nx) % nx)];
+          if (typeof value !== "number" || Number.isNaN(value)) continue;
+          L.marker([la1 - j * dy, west + i * dx], {
+            icon: arrowIcon(value),
+            interactive: false,
+            keyboard: false,
+          }).addTo(group);
+        }
+      }
+    };
+
+    draw();
+    map.on("moveend", draw);
+
+    return () => {
+      map.off("moveend", draw);
+      map.removeLayer(group);
+    };
+  }, [map, data]);
+
+  return null;
+}
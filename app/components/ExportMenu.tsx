@@ -0,0 +1,107 @@
+import { useState } from "react";
+import type { DatasetField, GribDataset } from "../.server/parser";
+import {
+  EXPORT_FORMATS,
+  exportField,
+  exportFilename,
+  hasMember,
+  type ExportFormat,
+} from "../lib/export";
+
+interface ExportMenuProps {
+  dataset: GribDataset;
+  field: DatasetField;
+  // Ensemble member shown; null for the first
+  member: number | null;
+  timeIndex: number;
+}
+
+/**
+ * Save a file in the browser
+ */
+function download(text: string, contentType: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Header menu exporting the field shown, at the current time step or all
+ * of them, as CSV, GeoJSON or KML (see export.ts)
+ */
+export function ExportMenu({
+  dataset,
+  field,
+  member,
+  timeIndex,
+}: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [allSteps, setAllSteps] = useState(false);
+
+  const exportAs = (format: ExportFormat) => {
+    const selection = {
+      dataset,
+      field,
+      // Derived fields (e.g. the ensemble mean) have no members of their own
+      member: member !== null && hasMember(field, member) ? member : null,
+      steps: allSteps
+        ? dataset.timeSteps.map((_, index) => index)
+        : [timeIndex],
+    };
+    download(
+      exportField(selection, format),
+      EXPORT_FORMATS[format].contentType,
+      exportFilename(selection, format)
+    );
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-haspopup="menu"
+        className="text-slate-400 hover:text-white text-xs border border-slate-600 rounded px-2 py-0.5"
+      >
+        Export
+      </button>
+      {open && (
+        <div
+          role="menu"
+          className="absolute left-0 top-full mt-2 z-1000 bg-slate-900/95 backdrop-blur-sm rounded-lg shadow-lg p-3 w-56 text-sm space-y-2"
+        >
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => exportAs(format)}
+              className="block w-full text-left px-2 py-1 rounded text-slate-200 hover:bg-slate-700"
+            >
+              {EXPORT_FORMATS[format].label}
+              <span className="ml-2 text-xs text-slate-500">
+                {format === "kml" && field.kind === "vector"
+                  ? "wind barbs"
+                  : "points"}
+              </span>
+            </button>
+          ))}
+          {dataset.timeSteps.length > 1 && (
+            <label className="flex items-center gap-2 px-2 pt-2 border-t border-slate-700 text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allSteps}
+                onChange={(e) => setAllSteps(e.target.checked)}
+                className="accent-cyan-500"
+              />
+              All time steps
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import type { DatasetField } from "../.server/parser";
+import { formatLevel } from "../lib/units";
+
+interface FieldPickerProps {
+  fields: DatasetField[];
+  selectedId: string;
+  onChange: (id: string) => void;
+}
+
+/**
+ * Label for a field, e.g. "Wind 10 m" or "Pressure (MSL)"
+ */
+export function formatFieldLabel(field: DatasetField): string {
+  const level = formatLevel(field.typeOfLevel, field.level);
+  return level ? `${field.name} ${level}` : field.name;
+}
+
+/**
+ * Fields of the same parameter on other pressure levels (including the
+ * field itself), from the surface upwards
+ */
+export function pressureLevelSiblings(
+  fields: DatasetField[],
+  field: DatasetField
+): DatasetField[] {
+  if (field.typeOfLevel !== "isobaricInhPa") return [field];
+  return fields
+    .filter(
+      (f) =>
+        f.typeOfLevel === "isobaricInhPa" &&
+        f.parameter === field.parameter &&
+        f.kind === field.kind
+    )
+    .sort((a, b) => b.level - a.level);
+}
+
+export function FieldPicker({
+  fields,
+  selectedId,
+  onChange,
+}: FieldPickerProps) {
+  // Parameters on several pressure levels get one entry; the level is
+  // picked separately with the LevelPicker
+  const selected = fields.find((f) => f.id === selectedId);
+  const entries = fields.filter((field) => {
+    const siblings = pressureLevelSiblings(fields, field);
+    return siblings[0] === field;
+  });
+  const entryFor = (field: DatasetField) =>
+    pressureLevelSiblings(fields, field)[0];
+
+  if (entries.length <= 1) {
+    // Single field - nothing to pick
+    return null;
+  }
+
+  // Keep the current pressure level when switching parameters
+  const handleChange = (id: string) => {
+    const entry = fields.find((f) => f.id === id);
+    if (!entry) return;
+    const sameLevel =
+      selected?.typeOfLevel === "isobaricInhPa"
+        ? pressureLevelSiblings(fields, entry).find(
+            (f) => f.level === selected.level
+          )
+        : undefined;
+    onChange((sameLevel ?? entry).id);
+  };
+
+  const label = (field: DatasetField) =>
+    pressureLevelSiblings(fields, field).length > 1
+      ? `${field.name} (pressure levels)`
+      : formatFieldLabel(field);
+
+  return (
+    <div>
+      <label htmlFor="field-picker" className="sr-only">
+        Select field
+      </label>
+      <select
+        id="field-picker"
+        value={selected ? entryFor(selected).id : selectedId}
+        onChange={(e) => handleChange(e.target.value)}
+        aria-label="Select field"
+        className="bg-slate-800/80 border border-slate-600 rounded-lg px-3 py-1.5 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+      >
+        {entries.map((field) => (
+          <option key={field.id} value={field.id}>
+            {label(field)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
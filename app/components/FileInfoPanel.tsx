@@ -0,0 +1,143 @@
+import type {
+  DatasetField,
+  GribDataset,
+  VelocityHeader,
+} from "../.server/parser";
+import { formatFieldLabel } from "./FieldPicker";
+import { SkippedMessages } from "./SkippedMessages";
+
+interface FileInfoPanelProps {
+  dataset: GribDataset;
+  onClose: () => void;
+}
+
+/**
+ * First available header of a field (U component for vectors)
+ */
+function firstHeader(field: DatasetField): VelocityHeader | null {
+  for (const step of field.steps) {
+    if (!step) continue;
+    return Array.isArray(step) ? step[0].header : step.header;
+  }
+  return null;
+}
+
+/**
+ * Metadata read from the file's messages: where the data comes from and
+ * how each field is stored
+ */
+export function FileInfoPanel({ dataset, onClose }: FileInfoPanelProps) {
+  const rows = dataset.fields.flatMap((field) => {
+    const header = firstHeader(field);
+    return header ? [{ field, header }] : [];
+  });
+
+  // Files usually come from one model, but merged files may mix several
+  const origins = new Map<string, VelocityHeader>();
+  for (const { header } of rows) {
+    const key = `${header.center}:${header.subCenter}:${header.generatingProcessIdentifier}:${header.gribEdition}`;
+    if (!origins.has(key)) origins.set(key, header);
+  }
+
+  // Ensemble files carry the same fields for every member
+  const memberCount = Math.max(
+    0,
+    ...dataset.fields.map((field) => field.members?.length ?? 0)
+  );
+
+  return (
+    <div className="absolute top-28 left-4 z-1000 bg-slate-900/95 backdrop-blur-sm rounded-lg shadow-lg p-4 w-[28rem] max-h-[70vh] overflow-y-auto text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-white font-semibold">File info</h2>
+        <button
+          onClick={onClose}
+          aria-label="Close file info"
+          className="text-slate-400 hover:text-white"
+        >
+          ✕
+        </button>
+      </div>
+
+      {[...origins].map(([key, header]) => (
+        <dl
+          key={key}
+          className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mb-3"
+        >
+          <dt className="text-slate-500">Centre</dt>
+          <dd className="text-slate-200">
+            {header.centerName}
+            <span className="text-slate-500">
+              {" "}
+              ({header.center}, sub-centre {header.subCenter})
+            </span>
+          </dd>
+          <dt className="text-slate-500">Model</dt>
+          <dd className="text-slate-200">
+            {header.modelName}
+            <span className="text-slate-500">
+              {" "}
+              (process {header.generatingProcessIdentifier})
+            </span>
+          </dd>
+          <dt className="text-slate-500">Edition</dt>
+          <dd className="text-slate-200">GRIB{header.gribEdition}</dd>
+        </dl>
+      ))}
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mb-3">
+        <dt className="text-slate-500">Reference</dt>
+        <dd className="text-slate-200">{dataset.refTime}</dd>
+        <dt className="text-slate-500">Time steps</dt>
+        <dd className="text-slate-200">{dataset.timeSteps.length}</dd>
+        {memberCount > 1 && (
+          <>
+            <dt className="text-slate-500">Ensemble</dt>
+            <dd className="text-slate-200">{memberCount} members</dd>
+          </>
+        )}
+      </dl>
+
+      {dataset.skippedMessages && (
+        <div className="mb-3">
+          <SkippedMessages messages={dataset.skippedMessages} />
+        </div>
+      )}
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500 text-left">
+            <th className="font-normal pb-1">Field</th>
+            <th className="font-normal pb-1">Units</th>
+            <th className="font-normal pb-1">Level</th>
+            <th className="font-normal pb-1">Grid</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-300">
+          {rows.map(({ field, header }) => (
+            <tr key={field.id} className="border-t border-slate-800">
+              <td className="py-1 pr-2">
+                {formatFieldLabel(field)}
+                <div className="text-slate-500">
+                  {header.disciplineName}, {header.parameterCategoryName}
+                </div>
+              </td>
+              <td className="py-1 pr-2">{header.parameterUnit || "–"}</td>
+              <td className="py-1 pr-2">
+                {header.surface1TypeName}
+                <div className="text-slate-500">
+                  type {header.surface1Type}, value {header.surface1Value}
+                </div>
+              </td>
+              <td className="py-1">
+                {header.gridDefinitionTemplateName}
+                <div className="text-slate-500">
+                  {header.nx}×{header.ny}, {header.dx}°×{header.dy}°
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
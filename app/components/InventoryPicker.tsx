@@ -0,0 +1,487 @@
+import { useMemo, useState } from "react";
+import type { GribInventory, InventoryMessage } from "../.server/parser";
+import { formatForecastHour } from "../lib/time";
+import { formatLevel } from "../lib/units";
+import { PRESET_REGIONS } from "../lib/regions";
+import { SkippedMessages } from "./SkippedMessages";
+
+/**
+ * What to decode, as sent to /api/parse. Lists are left out when every
+ * option is picked, so whole files share the parse cache.
+ */
+export interface InventorySelection {
+  parameters?: string[];
+  levels?: string[];
+  forecastHours?: number[];
+}
+
+/**
+ * How to cut the picked fields down for a GRIB download, as sent to
+ * /api/subset: a preset region to crop to and a coarser spacing
+ */
+export interface SubsetRequest {
+  region?: string;
+  targetResolution?: number;
+}
+
+/**
+ * Bytes of the uploaded file and of the subset written from it
+ */
+export interface SubsetSizes {
+  originalSize: number;
+  subsetSize: number;
+}
+
+interface InventoryPickerProps {
+  fileName: string;
+  inventory: GribInventory;
+  onSubmit: (selection: InventorySelection) => void;
+  onCancel: () => void;
+  // Write the picked fields to a smaller GRIB2 file and download it
+  onDownloadSubset: (
+    selection: InventorySelection,
+    subset: SubsetRequest
+  ) => Promise<SubsetSizes>;
+}
+
+interface Option<T> {
+  value: T;
+  label: string;
+  // Messages and bytes behind the option
+  count: number;
+  size: number;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Coarser spacings offered for subsets, in degrees
+const SUBSET_RESOLUTIONS = [0.5, 1, 2];
+
+function levelKey(message: InventoryMessage): string {
+  return `${message.typeOfLevel}:${message.level}`;
+}
+
+/**
+ * Level label, naming surface levels (e.g. "meanSea") that formatLevel
+ * leaves blank
+ */
+function levelLabel(message: InventoryMessage): string {
+  return formatLevel(message.typeOfLevel, message.level) || message.typeOfLevel;
+}
+
+/**
+ * Distinct values among the messages, in first-seen order (or sorted by
+ * `compare`), with how many messages and bytes each covers
+ */
+function collectOptions<T>(
+  messages: InventoryMessage[],
+  value: (message: InventoryMessage) => T,
+  label: (message: InventoryMessage) => string,
+  compare?: (a: T, b: T) => number
+): Option<T>[] {
+  const options = new Map<T, Option<T>>();
+  for (const message of messages) {
+    const key = value(message);
+    const option = options.get(key);
+    if (option) {
+      option.count++;
+      option.size += message.size;
+    } else {
+      options.set(key, {
+        value: key,
+        label: label(message),
+        count: 1,
+        size: message.size,
+      });
+    }
+  }
+  const list = [...options.values()];
+  return compare ? list.sort((a, b) => compare(a.value, b.value)) : list;
+}
+
+/**
+ * Distinct descriptions of a message property, e.g. the centres or
+ * grids a file was made from
+ */
+function distinct(
+  messages: InventoryMessage[],
+  describe: (message: InventoryMessage) => string
+): string {
+  return [...new Set(messages.map(describe))].join(", ");
+}
+
+function describeGrid({ grid }: InventoryMessage): string {
+  return `${grid.templateName} ${grid.nx}×${grid.ny}, ${grid.dx}°×${grid.dy}°`;
+}
+
+/**
+ * Checkbox group over a set of options, with a toggle for all of them
+ */
+function OptionGroup<T extends string | number>({
+  id,
+  title,
+  options,
+  selected,
+  onChange,
+}: {
+  id: string;
+  title: string;
+  options: Option<T>[];
+  selected: Set<T>;
+  onChange: (selected: Set<T>) => void;
+}) {
+  const allSelected = options.every((option) => selected.has(option.value));
+
+  const toggle = (value: T) => {
+    const next = new Set(selected);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 id={id} className="text-sm font-semibold text-slate-200">
+          {title}
+        </h3>
+        <button
+          type="button"
+          onClick={() =>
+            onChange(
+              allSelected
+                ? new Set()
+                : new Set(options.map((option) => option.value))
+            )
+          }
+          className="text-xs text-cyan-400 hover:text-cyan-300"
+        >
+          {allSelected ? "None" : "All"}
+        </button>
+      </div>
+      <div
+        className="space-y-1 max-h-56 overflow-y-auto"
+        role="group"
+        aria-labelledby={id}
+      >
+        {options.map((option) => (
+          <label
+            key={option.value}
+            title={`${option.count} message${option.count === 1 ? "" : "s"}`}
+            className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={selected.has(option.value)}
+              onChange={() => toggle(option.value)}
+              className="accent-cyan-500"
+            />
+            <span className="flex-1 truncate">{option.label}</span>
+            <span className="text-xs text-slate-500 tabular-nums">
+              {formatSize(option.size)}
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Inventory of an uploaded file, read before decoding it: what the file
+ * holds and where it comes from, with variables, levels and time steps
+ * to pick from. Messages the viewer cannot decode are listed but cannot
+ * be picked.
+ */
+export function InventoryPicker({
+  fileName,
+  inventory,
+  onSubmit,
+  onCancel,
+  onDownloadSubset,
+}: InventoryPickerProps) {
+  const decodable = useMemo(
+    () => inventory.messages.filter((message) => message.parameter !== null),
+    [inventory]
+  );
+
+  const parameters = useMemo(
+    () =>
+      collectOptions(
+        decodable,
+        (message) => message.parameter!,
+        (message) => message.parameterName ?? message.parameter!
+      ),
+    [decodable]
+  );
+  const levels = useMemo(
+    () => collectOptions(decodable, levelKey, levelLabel),
+    [decodable]
+  );
+  const forecastHours = useMemo(
+    () =>
+      collectOptions(
+        decodable,
+        (message) => message.forecastHour,
+        (message) => formatForecastHour(message.forecastHour),
+        (a, b) => a - b
+      ),
+    [decodable]
+  );
+
+  const [selectedParameters, setSelectedParameters] = useState(
+    () => new Set(parameters.map((option) => option.value))
+  );
+  const [selectedLevels, setSelectedLevels] = useState(
+    () => new Set(levels.map((option) => option.value))
+  );
+  const [selectedHours, setSelectedHours] = useState(
+    () => new Set(forecastHours.map((option) => option.value))
+  );
+
+  const picked = decodable.filter(
+    (message) =>
+      selectedParameters.has(message.parameter!) &&
+      selectedLevels.has(levelKey(message)) &&
+      selectedHours.has(message.forecastHour)
+  );
+  const totalSize = inventory.messages.reduce(
+    (sum, message) => sum + message.size,
+    0
+  );
+  const skipped = inventory.messages.length - decodable.length;
+
+  const [subsetRegion, setSubsetRegion] = useState("");
+  const [subsetResolution, setSubsetResolution] = useState("");
+  const [subsetState, setSubsetState] = useState<
+    | { status: "idle" | "writing" }
+    | { status: "done"; sizes: SubsetSizes }
+    | { status: "failed"; error: string }
+  >({ status: "idle" });
+
+  const selection = (): InventorySelection => {
+    const list = <T,>(options: Option<T>[], selected: Set<T>) =>
+      options.every((option) => selected.has(option.value))
+        ? undefined
+        : options
+            .map((option) => option.value)
+            .filter((value) => selected.has(value));
+    return {
+      parameters: list(parameters, selectedParameters),
+      levels: list(levels, selectedLevels),
+      forecastHours: list(forecastHours, selectedHours),
+    };
+  };
+
+  const downloadSubset = async () => {
+    setSubsetState({ status: "writing" });
+    try {
+      const sizes = await onDownloadSubset(selection(), {
+        region: subsetRegion || undefined,
+        targetResolution: subsetResolution
+          ? Number(subsetResolution)
+          : undefined,
+      });
+      setSubsetState({ status: "done", sizes });
+    } catch (err) {
+      setSubsetState({
+        status: "failed",
+        error: err instanceof Error ? err.message : "Failed to write subset",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-700 bg-slate-900/60 p-6 space-y-5">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-100 truncate">
+          {fileName}
+        </h2>
+        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-slate-500">Messages</dt>
+          <dd className="text-slate-300">
+            {inventory.messages.length} ({formatSize(totalSize)})
+            {skipped > 0 && `, ${skipped} not decodable`}
+          </dd>
+          <dt className="text-slate-500">Reference time</dt>
+          <dd className="text-slate-300">
+            {new Date(inventory.refTime).toUTCString()}
+          </dd>
+          <dt className="text-slate-500">Centre</dt>
+          <dd className="text-slate-300">
+            {distinct(inventory.messages, (message) => message.centreName)}
+          </dd>
+          <dt className="text-slate-500">Edition</dt>
+          <dd className="text-slate-300">
+            {distinct(
+              inventory.messages,
+              (message) => `GRIB${message.edition}`
+            )}
+          </dd>
+          <dt className="text-slate-500">Grid</dt>
+          <dd className="text-slate-300">
+            {distinct(inventory.messages, describeGrid)}
+          </dd>
+        </dl>
+      </div>
+
+      <SkippedMessages messages={inventory.skippedMessages} />
+
+      <div className="grid sm:grid-cols-3 gap-3">
+        <OptionGroup
+          id="inventory-parameters"
+          title="Variables"
+          options={parameters}
+          selected={selectedParameters}
+          onChange={setSelectedParameters}
+        />
+        <OptionGroup
+          id="inventory-levels"
+          title="Levels"
+          options={levels}
+          selected={selectedLevels}
+          onChange={setSelectedLevels}
+        />
+        <OptionGroup
+          id="inventory-steps"
+          title="Time steps"
+          options={forecastHours}
+          selected={selectedHours}
+          onChange={setSelectedHours}
+        />
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-slate-400 hover:text-slate-200">
+          All messages
+        </summary>
+        <div className="mt-2 max-h-72 overflow-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="py-1 pr-3 font-normal">#</th>
+                <th className="py-1 pr-3 font-normal">Parameter</th>
+                <th className="py-1 pr-3 font-normal">Level</th>
+                <th className="py-1 pr-3 font-normal">Step</th>
+                <th className="py-1 pr-3 font-normal">Grid</th>
+                <th className="py-1 pr-3 font-normal">Edition</th>
+                <th className="py-1 pr-3 font-normal">Centre</th>
+                <th className="py-1 font-normal text-right">Size</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {inventory.messages.map((message) => (
+                <tr
+                  key={message.messageNumber}
+                  className={message.parameter === null ? "text-slate-500" : ""}
+                >
+                  <td className="py-0.5 pr-3 tabular-nums">
+                    {message.messageNumber}
+                  </td>
+                  <td className="py-0.5 pr-3">
+                    {message.name} ({message.shortName})
+                    {message.perturbationNumber !== null &&
+                      ` #${message.perturbationNumber}`}
+                  </td>
+                  <td className="py-0.5 pr-3">{levelLabel(message)}</td>
+                  <td className="py-0.5 pr-3">
+                    {message.startStep !== message.forecastHour
+                      ? `${formatForecastHour(message.startStep)} to ${formatForecastHour(message.forecastHour)}`
+                      : formatForecastHour(message.forecastHour)}
+                  </td>
+                  <td className="py-0.5 pr-3">{describeGrid(message)}</td>
+                  <td className="py-0.5 pr-3">{message.edition}</td>
+                  <td className="py-0.5 pr-3">{message.centreName}</td>
+                  <td className="py-0.5 text-right tabular-nums">
+                    {formatSize(message.size)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-slate-400 hover:text-slate-200">
+          Download GRIB subset
+        </summary>
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-slate-400">
+            Region
+            <select
+              value={subsetRegion}
+              onChange={(e) => setSubsetRegion(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+            >
+              <option value="">Whole grid</option>
+              {Object.keys(PRESET_REGIONS).map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-slate-400">
+            Resolution
+            <select
+              value={subsetResolution}
+              onChange={(e) => setSubsetResolution(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+            >
+              <option value="">Native</option>
+              {SUBSET_RESOLUTIONS.map((degrees) => (
+                <option key={degrees} value={degrees}>
+                  {degrees}°
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={downloadSubset}
+            disabled={picked.length === 0 || subsetState.status === "writing"}
+            className="px-3 py-1 rounded-lg border border-slate-600 text-slate-200 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {subsetState.status === "writing" ? "Writing…" : "Download GRIB2"}
+          </button>
+          {subsetState.status === "done" && (
+            <span className="text-slate-400 tabular-nums">
+              {formatSize(subsetState.sizes.originalSize)} →{" "}
+              {formatSize(subsetState.sizes.subsetSize)}
+            </span>
+          )}
+          {subsetState.status === "failed" && (
+            <span className="text-red-400">{subsetState.error}</span>
+          )}
+        </div>
+      </details>
+
+      <div className="flex items-center justify-end gap-3">
+        <span className="mr-auto text-sm text-slate-400">
+          {picked.length} of {decodable.length} messages,{" "}
+          {formatSize(picked.reduce((sum, message) => sum + message.size, 0))}
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg text-sm text-slate-300 hover:text-white"
+        >
+          Choose another file
+        </button>
+        <button
+          type="button"
+          onClick={() => onSubmit(selection())}
+          disabled={picked.length === 0}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-cyan-600 hover:bg-cyan-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          View forecast
+        </button>
+      </div>
+    </div>
+  );
+}
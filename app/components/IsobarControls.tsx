@@ -0,0 +1,49 @@
+import { LayerToggle } from "./LayerToggle";
+
+interface IsobarControlsProps {
+  enabled: boolean;
+  onToggle: () => void;
+  // Contour interval in hPa
+  interval: number;
+  onIntervalChange: (interval: number) => void;
+}
+
+// Contour intervals offered, in hPa
+const INTERVALS = [1, 2, 4, 8] as const;
+
+export function IsobarControls({
+  enabled,
+  onToggle,
+  interval,
+  onIntervalChange,
+}: IsobarControlsProps) {
+  return (
+    <div
+      className="flex items-center gap-1.5"
+      role="group"
+      aria-label="Isobar overlay"
+    >
+      <LayerToggle label="Isobars" enabled={enabled} onToggle={onToggle} />
+      {enabled && (
+        <>
+          <label htmlFor="isobar-interval" className="sr-only">
+            Isobar interval
+          </label>
+          <select
+            id="isobar-interval"
+            value={interval}
+            onChange={(e) => onIntervalChange(Number(e.target.value))}
+            aria-label="Isobar interval"
+            className="bg-slate-800/80 border border-slate-600 rounded-lg px-2 py-1.5 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+          >
+            {INTERVALS.map((value) => (
+              <option key={value} value={value}>
+                {value} hPa
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useMemo } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import type { VelocityComponent } from "../.server/parser";
+import {
+  contourLevels,
+  contourLines,
+  findExtrema,
+  isGlobalGrid,
+} from "../lib/contours";
+
+interface IsobarLayerProps {
+  // Mean sea level pressure in Pa
+  data: VelocityComponent;
+  // Contour interval in hPa
+  interval: number;
+}
+
+// Only label lines long enough to carry a label without clutter
+const MIN_LABELLED_POINTS = 12;
+
+// Search radius for pressure centres, in degrees
+const CENTER_RADIUS_DEGREES = 4;
+
+function labelIcon(text: string): L.DivIcon {
+  return L.divIcon({
+    className: "",
+    html: `<span class="px-1 rounded bg-slate-900/70 text-[10px] text-slate-100 whitespace-nowrap">${text}</span>`,
+    iconSize: [32, 14],
+    iconAnchor: [16, 7],
+  });
+}
+
+function centerIcon(kind: "high" | "low", hPa: number): L.DivIcon {
+  const letter = kind === "high" ? "H" : "L";
+  const color = kind === "high" ? "text-blue-400" : "text-red-400";
+  return L.divIcon({
+    className: "",
+    html: `<div class="flex flex-col items-center leading-none drop-shadow"><span class="${color} text-2xl font-bold">${letter}</span><span class="text-[10px] text-slate-100">${hPa}</span></div>`,
+    iconSize: [40, 36],
+    iconAnchor: [20, 18],
+  });
+}
+
+export function IsobarLayer({ data, interval }: IsobarLayerProps) {
+  const map = useMap();
+
+  // Contouring is pure, so only redo it when the data or interval changes
+  const { lines, centers, offsets } = useMemo(() => {
+    const { header } = data;
+    const levels = contourLevels(data.data, interval * 100);
+    const radius = Math.max(
+      2,
+      Math.round(CENTER_RADIUS_DEGREES / Math.max(header.dx, header.dy))
+    );
+    return {
+      lines: contourLines(header, data.data, levels),
+      centers: findExtrema(header, data.data, radius),
+      // Global grids are drawn on the neighbouring world copies too, so
+      // lines continue across the 0/360 seam and the antimeridian
+      offsets: isGlobalGrid(header) ? [-360, 0, 360] : [0],
+    };
+  }, [data, interval]);
+
+  useEffect(() => {
+    if (!map) return;
+
+    const group = L.layerGroup();
+
+    for (const offset of offsets) {
+      for (const line of lines) {
+        const points = line.points.map(([lat, lon]): [number, number] => [
+          lat,
+          lon + offset,
+        ]);
+        L.polyline(points, {
+          color: "#e2e8f0",
+          weight: 1,
+          opacity: 0.7,
+          interactive: false,
+        }).addTo(group);
+
+        if (points.length >= MIN_LABELLED_POINTS) {
+          const middle = points[Math.floor(points.length / 2)];
+          L.marker(middle, {
+            icon: labelIcon(String(Math.round(line.level / 100))),
+            interactive: false,
+            keyboard: false,
+          }).addTo(group);
+        }
+      }
+
+      for (const center of centers) {
+        L.marker([center.lat, center.lon + offset], {
+          icon: centerIcon(center.kind, Math.round(center.value / 100)),
+          interactive: false,
+          keyboard: false,
+        }).addTo(group);
+      }
+    }
+
+    group.addTo(map);
+
+    return () => {
+      map.removeLayer(group);
+    };
+  }, [map, lines, centers, offsets]);
+
+  return null;
+}
@@ -0,0 +1,25 @@
+interface LayerToggleProps {
+  label: string;
+  enabled: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * Header button that shows or hides an overlay layer
+ */
+export function LayerToggle({ label, enabled, onToggle }: LayerToggleProps) {
+  return (
+    <button
+      onClick={onToggle}
+      aria-pressed={enabled}
+      aria-label={`${enabled ? "Hide" : "Show"} ${label.toLowerCase()}`}
+      className={`px-3 py-1.5 rounded-lg text-sm transition-all ${
+        enabled
+          ? "bg-cyan-600 text-white"
+          : "bg-slate-800/80 text-slate-300 hover:bg-slate-700"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,48 @@
+import type { DatasetField } from "../.server/parser";
+import { pressureLevelSiblings } from "./FieldPicker";
+
+interface LevelPickerProps {
+  fields: DatasetField[];
+  selectedId: string;
+  onChange: (id: string) => void;
+}
+
+/**
+ * Pressure level selector for parameters available on several
+ * isobaric levels (e.g. wind at 850, 500 and 300 hPa)
+ */
+export function LevelPicker({
+  fields,
+  selectedId,
+  onChange,
+}: LevelPickerProps) {
+  const selected = fields.find((f) => f.id === selectedId);
+  if (!selected) return null;
+
+  const levels = pressureLevelSiblings(fields, selected);
+  if (levels.length <= 1) {
+    // Single level - nothing to pick
+    return null;
+  }
+
+  return (
+    <div>
+      <label htmlFor="level-picker" className="sr-only">
+        Select pressure level
+      </label>
+      <select
+        id="level-picker"
+        value={selected.id}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label="Select pressure level"
+        className="bg-slate-800/80 border border-slate-600 rounded-lg px-3 py-1.5 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+      >
+        {levels.map((field) => (
+          <option key={field.id} value={field.id}>
+            {field.level} hPa
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
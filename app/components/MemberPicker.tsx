@@ -0,0 +1,66 @@
+import type { DatasetField } from "../.server/parser";
+
+interface MemberPickerProps {
+  field: DatasetField;
+  // Perturbation number of the member shown; null for the first
+  selected: number | null;
+  onChange: (perturbationNumber: number) => void;
+}
+
+/**
+ * Label for an ensemble member; member 0 is the control forecast
+ */
+function formatMemberLabel(perturbationNumber: number): string {
+  return perturbationNumber === 0 ? "Control" : `Member ${perturbationNumber}`;
+}
+
+/**
+ * Ensemble member selector, with buttons to step through the members
+ * of fields from ensemble forecasts
+ */
+export function MemberPicker({ field, selected, onChange }: MemberPickerProps) {
+  const members = field.members?.map((m) => m.perturbationNumber) ?? [];
+  if (members.length <= 1) {
+    // Not an ensemble - nothing to pick
+    return null;
+  }
+
+  const index = Math.max(0, members.indexOf(selected ?? members[0]));
+  const step = (delta: number) =>
+    onChange(members[(index + delta + members.length) % members.length]);
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => step(-1)}
+        aria-label="Previous member"
+        className="text-slate-400 hover:text-white px-1"
+      >
+        ‹
+      </button>
+      <label htmlFor="member-picker" className="sr-only">
+        Select ensemble member
+      </label>
+      <select
+        id="member-picker"
+        value={members[index]}
+        onChange={(e) => onChange(Number(e.target.value))}
+        aria-label="Select ensemble member"
+        className="bg-slate-800/80 border border-slate-600 rounded-lg px-3 py-1.5 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+      >
+        {members.map((member) => (
+          <option key={member} value={member}>
+            {formatMemberLabel(member)}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => step(1)}
+        aria-label="Next member"
+        className="text-slate-400 hover:text-white px-1"
+      >
+        ›
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
 import { useState, useMemo, useEffect } from "react";
-import { PRESET_REGIONS, type Region } from "../lib/regions";
+import {
+  PRESET_REGIONS,
+  crossesAntimeridian,
+  normalizeLongitude,
+  type Region,
+} from "../lib/regions";
 
 interface SaildocsBuilderProps {
   className?: string;
@@ -74,10 +79,13 @@ const MODEL_PARAMETERS: Record<string, readonly string[]> = {
 } as const;
 
 function formatCoord(value: number, isLat: boolean): string {
+  if (!isLat) value = normalizeLongitude(value);
   const dir = isLat ? (value >= 0 ? "N" : "S") : value >= 0 ? "E" : "W";
   return `${Math.abs(value)}${dir}`;
 }
 
+// Saildocs takes the west edge first, so a region crossing the
+// antimeridian reads e.g. 165E,140W
 function formatRegion(region: Region): string {
   return `${formatCoord(region.south, true)},${formatCoord(region.north, true)},${formatCoord(region.west, false)},${formatCoord(region.east, false)}`;
 }
@@ -306,6 +314,13 @@ export function SaildocsBuilder({ className = "" }: SaildocsBuilderProps) {
               ))}
             </div>
           )}
+          {crossesAntimeridian(currentRegion) && (
+            <p className="text-[10px] text-slate-400 mt-2">
+              Crosses the 180° meridian:{" "}
+              {formatCoord(currentRegion.west, false)} eastward to{" "}
+              {formatCoord(currentRegion.east, false)}
+            </p>
+          )}
         </div>
 
         {/* Card 3: Forecast Settings (Resolution + Hours) */}
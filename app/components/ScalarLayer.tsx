@@ -0,0 +1,111 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import type { VelocityComponent } from "../.server/parser";
+import { SCALAR_COLOR_SCALE, colorAt, type RGB } from "../lib/colors";
+import { isGlobalGrid } from "../lib/contours";
+
+interface ScalarLayerProps {
+  data: VelocityComponent;
+  // Value range mapped onto the colour scale (GRIB units)
+  range: [number, number];
+  colorScale?: RGB[];
+  opacity?: number;
+}
+
+// Output rows per grid row, so the Mercator stretch stays smooth
+const ROW_OVERSAMPLING = 2;
+
+function mercatorY(lat: number): number {
+  const phi = (Math.max(-85, Math.min(85, lat)) * Math.PI) / 180;
+  return Math.log(Math.tan(Math.PI / 4 + phi / 2));
+}
+
+function inverseMercatorY(y: number): number {
+  return ((2 * Math.atan(Math.exp(y)) - Math.PI / 2) * 180) / Math.PI;
+}
+
+/**
+ * Render a scalar grid to a canvas image, resampling rows so the image
+ * lines up with the Web Mercator map (image overlays stretch linearly)
+ */
+function renderGrid(
+  data: VelocityComponent,
+  range: [number, number],
+  colorScale: RGB[]
+): { canvas: HTMLCanvasElement; north: number; south: number } {
+  const { nx, ny, la1, dy } = data.header;
+  const north = la1 + dy / 2;
+  const south = la1 - (ny - 1) * dy - dy / 2;
+  const yNorth = mercatorY(north);
+  const ySouth = mercatorY(south);
+
+  const height = ny * ROW_OVERSAMPLING;
+  const canvas = document.createElement("canvas");
+  canvas.width = nx;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return { canvas, north, south };
+
+  const image = ctx.createImageData(nx, height);
+  const [min, max] = range;
+  const span = max - min || 1;
+
+  for (let row = 0; row < height; row++) {
+    const lat = inverseMercatorY(
+      yNorth - ((row + 0.5) / height) * (yNorth - ySouth)
+    );
+    const j = Math.min(ny - 1, Math.max(0, Math.round((la1 - lat) / dy)));
+
+    for (let i = 0; i < nx; i++) {
+      const value = data.data[j * nx + i];
+      const offset = (row * nx + i) * 4;
+      // JSON turns NaN into null; leave those cells transparent
+      if (typeof value !== "number" || Number.isNaN(value)) continue;
+      const [r, g, b] = colorAt(colorScale, (value - min) / span);
+      image.data[offset] = r;
+      image.data[offset + 1] = g;
+      image.data[offset + 2] = b;
+      image.data[offset + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return { canvas, north, south };
+}
+
+export function ScalarLayer({
+  data,
+  range,
+  colorScale = SCALAR_COLOR_SCALE,
+  opacity = 0.55,
+}: ScalarLayerProps) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!data || !map) return;
+
+    const { lo1, dx, nx } = data.header;
+    const { canvas, north, south } = renderGrid(data, range, colorScale);
+    const west = lo1 - dx / 2;
+    const east = lo1 + (nx - 1) * dx + dx / 2;
+
+    // Global grids get a copy either side, so the image has no edge at
+    // the 0/360 seam wherever the map is centred
+    const image = canvas.toDataURL();
+    const offsets = isGlobalGrid(data.header) ? [-360, 0, 360] : [0];
+    const layers = offsets.map((offset) =>
+      L.imageOverlay(
+        image,
+        L.latLngBounds([south, west + offset], [north, east + offset]),
+        { opacity, interactive: false }
+      ).addTo(map)
+    );
+
+    return () => {
+      for (const layer of layers) map.removeLayer(layer);
+    };
+  }, [map, data, range, colorScale, opacity]);
+
+  return null;
+}
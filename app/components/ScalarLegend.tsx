@@ -0,0 +1,74 @@
+import { SCALAR_COLOR_SCALE, cssGradient, type RGB } from "../lib/colors";
+import { displayUnit, type LengthUnit } from "../lib/units";
+
+interface ScalarLegendProps {
+  title: string;
+  // GRIB units of the range, converted for display
+  units: string;
+  range: [number, number];
+  colorScale?: RGB[];
+  // Metres or feet for height fields; the toggle shows when a handler is set
+  lengthUnit?: LengthUnit;
+  onLengthUnitChange?: (unit: LengthUnit) => void;
+}
+
+const LENGTH_UNITS: LengthUnit[] = ["m", "ft"];
+
+export function ScalarLegend({
+  title,
+  units,
+  range,
+  colorScale = SCALAR_COLOR_SCALE,
+  lengthUnit = "m",
+  onLengthUnitChange,
+}: ScalarLegendProps) {
+  const unit = displayUnit(units, lengthUnit);
+  const [min, max] = range.map(unit.convert);
+
+  // Fewer decimals for wide ranges
+  const digits = max - min >= 10 ? 0 : 1;
+
+  return (
+    <div className="absolute bottom-6 right-4 z-1000 bg-slate-900/90 backdrop-blur-sm rounded-lg px-3 py-2 shadow-lg w-56">
+      <div className="flex items-center justify-between mb-1">
+        <div className="text-slate-300 text-xs font-medium">
+          {title}
+          {unit.label && (
+            <span className="text-slate-500"> ({unit.label})</span>
+          )}
+        </div>
+        {units === "m" && onLengthUnitChange && (
+          <div
+            className="flex rounded bg-slate-800 text-[10px]"
+            role="group"
+            aria-label="Height units"
+          >
+            {LENGTH_UNITS.map((value) => (
+              <button
+                key={value}
+                onClick={() => onLengthUnitChange(value)}
+                aria-pressed={lengthUnit === value}
+                className={`px-1.5 py-0.5 rounded transition-colors ${
+                  lengthUnit === value
+                    ? "bg-cyan-600 text-white"
+                    : "text-slate-400 hover:text-white"
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div
+        className="h-2 rounded"
+        style={{ background: cssGradient(colorScale) }}
+        aria-hidden="true"
+      />
+      <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+        <span>{min.toFixed(digits)}</span>
+        <span>{max.toFixed(digits)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import type { VelocityComponent } from "../.server/parser";
+import { isGlobalGrid } from "../lib/contours";
+import { displayUnit, type LengthUnit } from "../lib/units";
+
+interface ScalarReadoutProps {
+  data: VelocityComponent;
+  label: string;
+  lengthUnit?: LengthUnit;
+}
+
+/**
+ * Value of the grid cell under a point, or null where the point is off
+ * the grid or the value is missing
+ */
+function valueAt(data: VelocityComponent, lat: number, lng: number) {
+  const { nx, ny, la1, lo1, dx, dy } = data.header;
+  const j = Math.round((la1 - lat) / dy);
+  // Degrees east of the first column, whichever copy of the map it's on
+  const east = (((lng - lo1) % 360) + 360) % 360;
+  let i = Math.round(east / dx);
+  if (isGlobalGrid(data.header)) i %= nx;
+  if (j < 0 || j >= ny || i >= nx) return null;
+
+  const value = data.data[j * nx + i];
+  return typeof value === "number" && !Number.isNaN(value) ? value : null;
+}
+
+/**
+ * Cursor readout for a scalar field, alongside the velocity layer's
+ * readout: the value of the cell under the cursor, or "No data" over
+ * missing points (e.g. land on wave grids)
+ */
+export function ScalarReadout({
+  data,
+  label,
+  lengthUnit = "m",
+}: ScalarReadoutProps) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!data || !map) return;
+
+    const unit = displayUnit(data.header.parameterUnit, lengthUnit);
+    const control = new L.Control({ position: "bottomleft" });
+    const container = L.DomUtil.create("div", "leaflet-control-velocity");
+    container.textContent = "No data";
+    control.onAdd = () => container;
+    control.addTo(map);
+
+    const handleMove = (e: L.LeafletMouseEvent) => {
+      const value = valueAt(data, e.latlng.lat, e.latlng.lng);
+      container.textContent =
+        value === null
+          ? "No data"
+          : `${label}: ${unit.convert(value).toFixed(1)} ${unit.label}`.trim();
+    };
+
+    map.on("mousemove", handleMove);
+
+    return () => {
+      map.off("mousemove", handleMove);
+      control.remove();
+    };
+  }, [map, data, label, lengthUnit]);
+
+  return null;
+}
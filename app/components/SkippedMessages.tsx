@@ -0,0 +1,43 @@
+import type { SkippedMessage } from "../lib/gribCheck";
+
+const REASON_LABELS: Record<SkippedMessage["reason"], string> = {
+  truncated: "Cut off",
+  "missing-end-marker": "No end marker",
+  "bad-length": "Bad length",
+  "bad-sections": "Bad sections",
+  "unknown-edition": "Unknown edition",
+  "unsupported-grid": "Unsupported grid",
+};
+
+/**
+ * Messages left out of a file and why, e.g. the last message of a
+ * download cut short
+ */
+export function SkippedMessages({ messages }: { messages: SkippedMessage[] }) {
+  if (messages.length === 0) return null;
+
+  return (
+    <div
+      className="rounded-lg border border-amber-500/20 bg-amber-500/10 p-3 text-sm"
+      role="status"
+    >
+      <p className="text-amber-300">
+        {messages.length === 1
+          ? "1 message was skipped"
+          : `${messages.length} messages were skipped`}
+        ; the rest of the file was read
+      </p>
+      <ul className="mt-1 space-y-0.5 text-xs text-slate-300">
+        {messages.map((message) => (
+          <li key={`${message.messageNumber}:${message.offset}`}>
+            <span className="text-slate-400">
+              Message {message.messageNumber} (byte {message.offset}),{" "}
+              {REASON_LABELS[message.reason]}:
+            </span>{" "}
+            {message.detail}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
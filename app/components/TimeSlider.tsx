@@ -1,16 +1,20 @@
 import { useState, useEffect, useCallback, useRef } from "react";
+import { formatForecastHour } from "../lib/time";
 
 interface TimeSliderProps {
   timeSteps: Array<{
     forecastHour: number;
     validTime: string;
   }>;
+  // Whether each step has arrived, while the dataset is still loading
+  loadedSteps?: boolean[];
   currentIndex: number;
   onTimeChange: (index: number) => void;
 }
 
 export function TimeSlider({
   timeSteps,
+  loadedSteps,
   currentIndex,
   onTimeChange,
 }: TimeSliderProps) {
@@ -40,16 +44,6 @@ export function TimeSlider({
     });
   };
 
-  // Format forecast hour
-  const formatForecastHour = (hour: number) => {
-    if (hour === 0) return "Now";
-    if (hour < 24) return `+${hour}h`;
-    const days = Math.floor(hour / 24);
-    const hours = hour % 24;
-    if (hours === 0) return `+${days}d`;
-    return `+${days}d ${hours}h`;
-  };
-
   // Handle play/pause
   const togglePlay = useCallback(() => {
     setIsPlaying((prev) => !prev);
@@ -103,6 +97,8 @@ export function TimeSlider({
   }
 
   const currentStep = timeSteps[currentIndex];
+  const loadedCount = loadedSteps?.filter(Boolean).length;
+  const isLoading = (idx: number) => loadedSteps?.[idx] === false;
 
   return (
     <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-1000 bg-slate-900/90 backdrop-blur-sm rounded-xl p-4 shadow-lg min-w-[400px]">
@@ -114,6 +110,11 @@ export function TimeSlider({
         <div className="text-slate-400 text-sm">
           Forecast: {formatForecastHour(currentStep.forecastHour)}
         </div>
+        {loadedCount !== undefined && (
+          <div className="text-cyan-400 text-xs" aria-live="polite">
+            Loaded {loadedCount} of {timeSteps.length} steps...
+          </div>
+        )}
       </div>
 
       {/* Controls */}
@@ -179,12 +180,14 @@ export function TimeSlider({
               <button
                 key={idx}
                 onClick={() => onTimeChange(idx)}
-                aria-label={`Go to ${formatForecastHour(step.forecastHour)} - ${formatTime(step.validTime)}`}
+                aria-label={`Go to ${formatForecastHour(step.forecastHour)} - ${formatTime(step.validTime)}${isLoading(idx) ? " (loading)" : ""}`}
                 aria-pressed={idx === currentIndex}
                 className={`text-xs transition-colors ${
                   idx === currentIndex
                     ? "text-blue-400 font-medium"
-                    : "text-slate-500 hover:text-slate-300"
+                    : isLoading(idx)
+                      ? "text-slate-700 animate-pulse"
+                      : "text-slate-500 hover:text-slate-300"
                 }`}
               >
                 {formatForecastHour(step.forecastHour)}
@@ -12,7 +12,9 @@ declare module "leaflet" {
     displayOptions?: {
       velocityType?: string;
       displayPosition?: string;
-      displayEmptyString?: string;
+      // Readout where the cursor is over missing data
+      emptyString?: string;
+      speedUnit?: string;
     };
     data: unknown;
     maxVelocity?: number;
@@ -35,16 +37,20 @@ interface VelocityLayerWithWindy extends L.Layer {
 
 import type { VelocityData } from "../.server/parser";
 
+type VelocityStyle = Omit<L.VelocityLayerOptions, "data">;
+
 interface VelocityLayerProps {
   data: VelocityData;
+  // Particle style; defaults to the wind style
+  options?: VelocityStyle;
 }
 
-const VELOCITY_OPTIONS = {
+export const WIND_VELOCITY_OPTIONS: VelocityStyle = {
   displayValues: true,
   displayOptions: {
     velocityType: "Wind",
     displayPosition: "bottomleft",
-    displayEmptyString: "No wind data",
+    emptyString: "No data",
   },
   maxVelocity: 15,
   velocityScale: 0.01,
@@ -69,7 +75,54 @@ const VELOCITY_OPTIONS = {
   ],
 };
 
-export function VelocityLayer({ data }: VelocityLayerProps) {
+// Ocean currents run at 0-3 kn, so particles move with a larger scale
+// and the colours top out at 1.5 m/s
+export const CURRENT_VELOCITY_OPTIONS: VelocityStyle = {
+  displayValues: true,
+  displayOptions: {
+    velocityType: "Current",
+    displayPosition: "bottomleft",
+    emptyString: "No data",
+    speedUnit: "kt",
+  },
+  maxVelocity: 1.5,
+  velocityScale: 0.12,
+  particleAge: 60,
+  particleMultiplier: 1 / 200,
+  lineWidth: 1.5,
+  colorScale: [
+    "rgb(204,251,241)",
+    "rgb(153,246,228)",
+    "rgb(94,234,212)",
+    "rgb(45,212,191)",
+    "rgb(20,184,166)",
+    "rgb(132,204,22)",
+    "rgb(234,179,8)",
+    "rgb(249,115,22)",
+    "rgb(236,72,153)",
+    "rgb(192,38,211)",
+  ],
+};
+
+/**
+ * leaflet-velocity only treats null as missing, so turn the NaN gaps of
+ * typed arrays (from binary datasets) into nulls
+ */
+function withNullGaps(data: VelocityData): VelocityData {
+  return data.map((component) =>
+    component.data instanceof Float32Array && component.data.some(Number.isNaN)
+      ? {
+          ...component,
+          data: Array.from(component.data, (v) => (Number.isNaN(v) ? null : v)),
+        }
+      : component
+  ) as VelocityData;
+}
+
+export function VelocityLayer({
+  data,
+  options = WIND_VELOCITY_OPTIONS,
+}: VelocityLayerProps) {
   const map = useMap();
   const layerRef = useRef<VelocityLayerWithWindy | null>(null);
 
@@ -80,8 +133,8 @@ export function VelocityLayer({ data }: VelocityLayerProps) {
     // Helper to create a fresh velocity layer
     const createLayer = () => {
       const layer = L.velocityLayer({
-        ...VELOCITY_OPTIONS,
-        data: data,
+        ...options,
+        data: withNullGaps(data),
       }) as VelocityLayerWithWindy;
       layer.addTo(map);
       return layer;
@@ -126,7 +179,7 @@ export function VelocityLayer({ data }: VelocityLayerProps) {
         layerRef.current = null;
       }
     };
-  }, [map, data]);
+  }, [map, data, options]);
 
   return null;
 }
@@ -1,16 +1,51 @@
 import { MapContainer, TileLayer } from "react-leaflet";
-import { VelocityLayer } from "./VelocityLayer";
-import type { VelocityData } from "../.server/parser";
+import {
+  VelocityLayer,
+  WIND_VELOCITY_OPTIONS,
+  CURRENT_VELOCITY_OPTIONS,
+} from "./VelocityLayer";
+import { ScalarLayer } from "./ScalarLayer";
+import { ScalarReadout } from "./ScalarReadout";
+import { IsobarLayer } from "./IsobarLayer";
+import { DirectionArrowLayer } from "./DirectionArrowLayer";
+import type { VelocityComponent, VelocityData } from "../.server/parser";
+import type { RGB } from "../lib/colors";
+import type { LengthUnit } from "../lib/units";
 import "leaflet/dist/leaflet.css";
 
 interface WindMapProps {
-  windData: VelocityData;
+  vectorData?: VelocityData | null;
+  // Draw vectorData with the current style instead of the wind style
+  vectorIsCurrent?: boolean;
+  // Ocean currents drawn alongside the selected field
+  oceanCurrentData?: VelocityData | null;
+  scalarData?: VelocityComponent | null;
+  scalarRange?: [number, number];
+  scalarColorScale?: RGB[];
+  // Field name and height units for the cursor readout
+  scalarLabel?: string;
+  lengthUnit?: LengthUnit;
+  // Direction in degrees, drawn as arrows (e.g. wave direction)
+  directionData?: VelocityComponent | null;
+  isobarData?: VelocityComponent | null;
+  // Isobar contour interval in hPa
+  isobarInterval?: number;
   center?: [number, number];
   zoom?: number;
 }
 
 export function WindMap({
-  windData,
+  vectorData,
+  vectorIsCurrent = false,
+  oceanCurrentData,
+  scalarData,
+  scalarRange,
+  scalarColorScale,
+  scalarLabel = "",
+  lengthUnit,
+  directionData,
+  isobarData,
+  isobarInterval = 4,
   center = [40, -40],
   zoom = 3,
 }: WindMapProps) {
@@ -25,7 +60,38 @@ export function WindMap({
         attribution='&copy; <a href="https://carto.com/">CARTO</a>'
         url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
       />
-      {windData ? <VelocityLayer data={windData} /> : null}
+      {scalarData && scalarRange ? (
+        <ScalarLayer
+          data={scalarData}
+          range={scalarRange}
+          colorScale={scalarColorScale}
+        />
+      ) : null}
+      {scalarData ? (
+        <ScalarReadout
+          data={scalarData}
+          label={scalarLabel}
+          lengthUnit={lengthUnit}
+        />
+      ) : null}
+      {directionData ? <DirectionArrowLayer data={directionData} /> : null}
+      {isobarData ? (
+        <IsobarLayer data={isobarData} interval={isobarInterval} />
+      ) : null}
+      {oceanCurrentData ? (
+        <VelocityLayer
+          data={oceanCurrentData}
+          options={CURRENT_VELOCITY_OPTIONS}
+        />
+      ) : null}
+      {vectorData ? (
+        <VelocityLayer
+          data={vectorData}
+          options={
+            vectorIsCurrent ? CURRENT_VELOCITY_OPTIONS : WIND_VELOCITY_OPTIONS
+          }
+        />
+      ) : null}
     </MapContainer>
   );
 }
@@ -0,0 +1,233 @@
+/**
+ * Binary dataset transport, a compact alternative to JSON for grids
+ * This file is shared between client and server
+ *
+ * Layout (little-endian):
+ *   bytes 0-3   "GRBL"
+ *   byte  4     format version
+ *   bytes 5-7   reserved (0)
+ *   bytes 8-11  header length in bytes
+ *   header      UTF-8 JSON, space-padded to a multiple of 4 bytes
+ *   blocks      grid values, each starting on a 4-byte boundary
+ *
+ * The header is the JSON of the value sent (a dataset, or the fields of
+ * one time step), with each grid's `data` replaced by a BlockDescriptor
+ * pointing into the blocks. Grids are quantized to Int16 (65,535 levels
+ * between the grid's minimum and maximum) unless Float32 is asked for.
+ * Payloads are gzip-compressed on the wire.
+ */
+
+export const BINARY_DATASET_TYPE = "application/vnd.griblet.dataset";
+
+const MAGIC = "GRBL";
+const FORMAT_VERSION = 1;
+const PREAMBLE_BYTES = 12;
+
+// Int16 code for missing points; values use the rest of the range
+const INT16_MISSING = -32768;
+const INT16_LEVELS = 65534;
+
+export type BinaryPrecision = "int16" | "float32";
+
+/**
+ * Where a grid's values are, and how to turn them back into numbers
+ * (value = reference + code * scale for Int16 blocks)
+ */
+export type BlockDescriptor =
+  | { encoding: "float32"; length: number; byteOffset: number }
+  | {
+      encoding: "int16";
+      length: number;
+      byteOffset: number;
+      reference: number;
+      scale: number;
+    };
+
+type GridValues = ArrayLike<number | null>;
+
+function isGridValues(value: unknown): value is GridValues {
+  return value instanceof Float32Array || Array.isArray(value);
+}
+
+function isBlockDescriptor(value: unknown): value is BlockDescriptor {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "encoding" in value &&
+    "byteOffset" in value
+  );
+}
+
+/**
+ * Value at a point, NaN where missing (null in JSON)
+ */
+function valueAt(values: GridValues, index: number): number {
+  return values[index] ?? NaN;
+}
+
+/**
+ * Encode a value holding grids (objects with a `header` and `data`)
+ */
+export function encodeBinaryDataset(
+  value: unknown,
+  precision: BinaryPrecision = "int16"
+): Uint8Array {
+  const grids: { values: GridValues; block: BlockDescriptor }[] = [];
+  let blockBytes = 0;
+
+  const header = JSON.stringify(
+    value,
+    function (this: unknown, key: string, item: unknown) {
+      if (
+        key !== "data" ||
+        !isGridValues(item) ||
+        typeof this !== "object" ||
+        this === null ||
+        !("header" in this)
+      ) {
+        return item;
+      }
+
+      const block = describeBlock(item, blockBytes, precision);
+      grids.push({ values: item, block });
+      const bytes = block.length * (block.encoding === "int16" ? 2 : 4);
+      blockBytes += Math.ceil(bytes / 4) * 4;
+      return block;
+    }
+  );
+
+  const headerBytes = new TextEncoder().encode(header);
+  const paddedLength = Math.ceil(headerBytes.length / 4) * 4;
+  const bytes = new Uint8Array(PREAMBLE_BYTES + paddedLength + blockBytes);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < MAGIC.length; i++) bytes[i] = MAGIC.charCodeAt(i);
+  bytes[4] = FORMAT_VERSION;
+  view.setUint32(8, paddedLength, true);
+  bytes.set(headerBytes, PREAMBLE_BYTES);
+  bytes.fill(
+    0x20,
+    PREAMBLE_BYTES + headerBytes.length,
+    PREAMBLE_BYTES + paddedLength
+  );
+
+  const blocksStart = PREAMBLE_BYTES + paddedLength;
+  for (const { values, block } of grids) {
+    const start = blocksStart + block.byteOffset;
+    if (block.encoding === "float32") {
+      for (let i = 0; i < block.length; i++) {
+        view.setFloat32(start + i * 4, valueAt(values, i), true);
+      }
+      continue;
+    }
+    for (let i = 0; i < block.length; i++) {
+      const value = valueAt(values, i);
+      const code = Number.isNaN(value)
+        ? INT16_MISSING
+        : block.scale === 0
+          ? 0
+          : Math.round((value - block.reference) / block.scale);
+      view.setInt16(start + i * 2, code, true);
+    }
+  }
+
+  return bytes;
+}
+
+function describeBlock(
+  values: GridValues,
+  byteOffset: number,
+  precision: BinaryPrecision
+): BlockDescriptor {
+  const length = values.length;
+  if (precision === "float32") {
+    return { encoding: "float32", length, byteOffset };
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < length; i++) {
+    const value = valueAt(values, i);
+    if (Number.isNaN(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  // Codes run from -32767 to 32767 around the middle of the range
+  const reference = min <= max ? (min + max) / 2 : 0;
+  const scale = min < max ? (max - min) / INT16_LEVELS : 0;
+  return { encoding: "int16", length, byteOffset, reference, scale };
+}
+
+/**
+ * Decode a binary dataset, with grid values as Float32Arrays (NaN where
+ * missing)
+ */
+export function decodeBinaryDataset<T>(buffer: ArrayBuffer | Uint8Array): T {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const magic = String.fromCharCode(...bytes.subarray(0, MAGIC.length));
+  if (magic !== MAGIC) {
+    throw new Error("Not a binary dataset");
+  }
+  if (bytes[4] !== FORMAT_VERSION) {
+    throw new Error(`Unsupported binary dataset version ${bytes[4]}`);
+  }
+
+  const headerLength = view.getUint32(8, true);
+  const blocksStart = PREAMBLE_BYTES + headerLength;
+  const header = new TextDecoder().decode(
+    bytes.subarray(PREAMBLE_BYTES, blocksStart)
+  );
+
+  return JSON.parse(header, (key, value) => {
+    if (key !== "data" || !isBlockDescriptor(value)) return value;
+
+    const start = blocksStart + value.byteOffset;
+    const data = new Float32Array(value.length);
+    if (value.encoding === "float32") {
+      for (let i = 0; i < value.length; i++) {
+        data[i] = view.getFloat32(start + i * 4, true);
+      }
+    } else {
+      for (let i = 0; i < value.length; i++) {
+        const code = view.getInt16(start + i * 2, true);
+        data[i] =
+          code === INT16_MISSING ? NaN : value.reference + code * value.scale;
+      }
+    }
+    return data;
+  }) as T;
+}
+
+/**
+ * Decompress and decode a gzip-compressed binary dataset
+ */
+export async function decompressBinaryDataset<T>(
+  compressed: Uint8Array
+): Promise<T> {
+  const stream = new Blob([compressed as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return decodeBinaryDataset<T>(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Base64 text of bytes, for binary payloads inside text (e.g. server-sent
+ * events)
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked to stay within argument limits
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
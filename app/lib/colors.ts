@@ -0,0 +1,62 @@
+/**
+ * Colour scales for scalar field layers
+ * This file is shared between client and server
+ */
+
+export type RGB = [number, number, number];
+
+// Default scale for scalar fields (blue to red, matching the wind particles)
+export const SCALAR_COLOR_SCALE: RGB[] = [
+  [36, 104, 180],
+  [60, 157, 194],
+  [128, 205, 193],
+  [151, 218, 168],
+  [198, 231, 181],
+  [238, 247, 217],
+  [255, 238, 159],
+  [252, 217, 125],
+  [255, 182, 100],
+  [252, 150, 75],
+  [250, 112, 52],
+  [245, 64, 32],
+  [237, 45, 28],
+  [220, 24, 32],
+];
+
+// Wave heights: calm blues through to purple for heavy seas
+export const WAVE_COLOR_SCALE: RGB[] = [
+  [30, 58, 138],
+  [37, 99, 235],
+  [14, 165, 233],
+  [45, 212, 191],
+  [163, 230, 53],
+  [250, 204, 21],
+  [249, 115, 22],
+  [220, 38, 38],
+  [190, 24, 93],
+  [126, 34, 206],
+];
+
+/**
+ * Interpolate a colour at position t (0-1) along a scale
+ */
+export function colorAt(scale: RGB[], t: number): RGB {
+  const clamped = Math.min(1, Math.max(0, t));
+  const position = clamped * (scale.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, scale.length - 1);
+  const f = position - lower;
+  return [
+    Math.round(scale[lower][0] + (scale[upper][0] - scale[lower][0]) * f),
+    Math.round(scale[lower][1] + (scale[upper][1] - scale[lower][1]) * f),
+    Math.round(scale[lower][2] + (scale[upper][2] - scale[lower][2]) * f),
+  ];
+}
+
+/**
+ * CSS linear-gradient for a scale, used by legends
+ */
+export function cssGradient(scale: RGB[]): string {
+  const stops = scale.map(([r, g, b]) => `rgb(${r},${g},${b})`).join(", ");
+  return `linear-gradient(to right, ${stops})`;
+}
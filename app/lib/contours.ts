@@ -0,0 +1,271 @@
+/**
+ * Contouring and extrema detection on regular lat/lon grids
+ * This file is shared between client and server
+ */
+
+/**
+ * Regular grid description (rows run north to south from la1,
+ * columns west to east from lo1), as in a leaflet-velocity header
+ */
+export interface GridSpec {
+  nx: number;
+  ny: number;
+  la1: number;
+  lo1: number;
+  dx: number;
+  dy: number;
+}
+
+export interface ContourLine {
+  level: number;
+  // [lat, lon] pairs
+  points: [number, number][];
+}
+
+export interface Extremum {
+  kind: "high" | "low";
+  lat: number;
+  lon: number;
+  value: number;
+}
+
+type GridValues = ArrayLike<number | null>;
+
+/**
+ * Whether a grid goes all the way round the globe, so its last column
+ * neighbours its first
+ */
+export function isGlobalGrid(grid: GridSpec): boolean {
+  return grid.nx * grid.dx >= 360 - grid.dx / 2;
+}
+
+function valueAt(data: GridValues, index: number): number {
+  const value = data[index];
+  return typeof value === "number" ? value : NaN;
+}
+
+/**
+ * Contour levels at a fixed interval covering the data range
+ */
+export function contourLevels(data: GridValues, interval: number): number[] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const value = valueAt(data, i);
+    if (Number.isNaN(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min > max || interval <= 0) return [];
+
+  const levels: number[] = [];
+  for (
+    let level = Math.ceil(min / interval) * interval;
+    level <= max;
+    level += interval
+  ) {
+    levels.push(level);
+  }
+  return levels;
+}
+
+/**
+ * Trace contour lines with marching squares. Cells touching missing
+ * values are skipped. Segments are joined into polylines so lines can
+ * be labelled. On global grids the cells between the last and first
+ * columns are traced too, with longitudes continuing past lo1 + 360.
+ */
+export function contourLines(
+  grid: GridSpec,
+  data: GridValues,
+  levels: number[]
+): ContourLine[] {
+  const { nx, ny, la1, lo1, dx, dy } = grid;
+  const lines: ContourLine[] = [];
+  const columns = isGlobalGrid(grid) ? nx : nx - 1;
+
+  for (const level of levels) {
+    // Crossing points keyed by grid edge: "h:i:j" is the edge from (i,j)
+    // to (i+1,j); "v:i:j" is the edge from (i,j) to (i,j+1)
+    const points = new Map<string, [number, number]>();
+    const segments: [string, string][] = [];
+
+    const crossing = (
+      key: string,
+      i0: number,
+      j0: number,
+      v0: number,
+      i1: number,
+      j1: number,
+      v1: number
+    ) => {
+      if (!points.has(key)) {
+        const t = (level - v0) / (v1 - v0);
+        const i = i0 + (i1 - i0) * t;
+        const j = j0 + (j1 - j0) * t;
+        points.set(key, [la1 - j * dy, lo1 + i * dx]);
+      }
+      return key;
+    };
+
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < columns; i++) {
+        const east = (i + 1) % nx;
+        const tl = valueAt(data, j * nx + i);
+        const tr = valueAt(data, j * nx + east);
+        const br = valueAt(data, (j + 1) * nx + east);
+        const bl = valueAt(data, (j + 1) * nx + i);
+        if ([tl, tr, br, bl].some(Number.isNaN)) continue;
+
+        const code =
+          (tl >= level ? 8 : 0) |
+          (tr >= level ? 4 : 0) |
+          (br >= level ? 2 : 0) |
+          (bl >= level ? 1 : 0);
+        if (code === 0 || code === 15) continue;
+
+        const top = () => crossing(`h:${i}:${j}`, i, j, tl, i + 1, j, tr);
+        const right = () =>
+          crossing(`v:${i + 1}:${j}`, i + 1, j, tr, i + 1, j + 1, br);
+        const bottom = () =>
+          crossing(`h:${i}:${j + 1}`, i, j + 1, bl, i + 1, j + 1, br);
+        const left = () => crossing(`v:${i}:${j}`, i, j, tl, i, j + 1, bl);
+
+        switch (code) {
+          case 1:
+          case 14:
+            segments.push([left(), bottom()]);
+            break;
+          case 2:
+          case 13:
+            segments.push([bottom(), right()]);
+            break;
+          case 3:
+          case 12:
+            segments.push([left(), right()]);
+            break;
+          case 4:
+          case 11:
+            segments.push([top(), right()]);
+            break;
+          case 6:
+          case 9:
+            segments.push([top(), bottom()]);
+            break;
+          case 7:
+          case 8:
+            segments.push([left(), top()]);
+            break;
+          case 5:
+          case 10: {
+            // Saddle: resolve with the cell centre value
+            const centreHigh = (tl + tr + br + bl) / 4 >= level;
+            if ((code === 5) === centreHigh) {
+              segments.push([left(), top()], [bottom(), right()]);
+            } else {
+              segments.push([left(), bottom()], [top(), right()]);
+            }
+            break;
+          }
+        }
+      }
+    }
+
+    for (const chain of joinSegments(segments)) {
+      lines.push({
+        level,
+        points: chain.map((key) => points.get(key)!),
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Join segments that share crossing points into chains of point keys
+ */
+function joinSegments(segments: [string, string][]): string[][] {
+  const byPoint = new Map<string, number[]>();
+  segments.forEach(([a, b], idx) => {
+    for (const key of [a, b]) {
+      const list = byPoint.get(key);
+      if (list) list.push(idx);
+      else byPoint.set(key, [idx]);
+    }
+  });
+
+  const used = new Uint8Array(segments.length);
+  const chains: string[][] = [];
+
+  const extend = (chain: string[]) => {
+    for (;;) {
+      const end = chain[chain.length - 1];
+      const next = byPoint.get(end)?.find((idx) => !used[idx]);
+      if (next === undefined) return;
+      used[next] = 1;
+      const [a, b] = segments[next];
+      chain.push(a === end ? b : a);
+    }
+  };
+
+  segments.forEach(([a, b], idx) => {
+    if (used[idx]) return;
+    used[idx] = 1;
+    const chain = [a, b];
+    extend(chain);
+    chain.reverse();
+    extend(chain);
+    chains.push(chain);
+  });
+
+  return chains;
+}
+
+/**
+ * Find local highs and lows: points that are the extreme value within
+ * `radius` grid cells in every direction. Points closer than `radius`
+ * to the grid edge are ignored, since the true centre may lie outside;
+ * global grids have no east/west edge.
+ */
+export function findExtrema(
+  grid: GridSpec,
+  data: GridValues,
+  radius: number
+): Extremum[] {
+  const { nx, ny, la1, lo1, dx, dy } = grid;
+  const extrema: Extremum[] = [];
+  const global = isGlobalGrid(grid);
+
+  for (let j = radius; j < ny - radius; j++) {
+    for (let i = global ? 0 : radius; i < (global ? nx : nx - radius); i++) {
+      const value = valueAt(data, j * nx + i);
+      if (Number.isNaN(value)) continue;
+
+      let isMax = true;
+      let isMin = true;
+      for (let dj = -radius; dj <= radius && (isMax || isMin); dj++) {
+        for (let di = -radius; di <= radius; di++) {
+          if (di === 0 && dj === 0) continue;
+          const other = valueAt(data, (j + dj) * nx + ((i + di + nx) % nx));
+          if (Number.isNaN(other)) continue;
+          // Ties count for the first point only, so plateaus yield one centre
+          const earlier = dj < 0 || (dj === 0 && di < 0);
+          if (other > value || (other === value && earlier)) isMax = false;
+          if (other < value || (other === value && earlier)) isMin = false;
+        }
+      }
+
+      if (isMax || isMin) {
+        extrema.push({
+          kind: isMax ? "high" : "low",
+          lat: la1 - j * dy,
+          lon: lo1 + i * dx,
+          value,
+        });
+      }
+    }
+  }
+
+  return extrema;
+}
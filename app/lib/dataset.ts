@@ -0,0 +1,148 @@
+/**
+ * Datasets built up one time step at a time, as the parser decodes them
+ * and as the viewer receives them from a streamed parse
+ * This file is shared between client and server
+ */
+
+import type {
+  DatasetField,
+  DatasetTimeStep,
+  EnsembleMember,
+  GribDataset,
+  ParseProgress,
+} from "../.server/parser";
+import type { SkippedMessage } from "./gribCheck";
+
+/**
+ * Events of a streamed parse (POST /api/parse as text/event-stream):
+ * the job's queue position while it waits, then the parse's progress,
+ * then "done" or "error". Clients accepting the binary format get each
+ * step's fields as a base64 binary payload (see binaryDataset.ts).
+ */
+export type ParseEvent =
+  | { type: "queued"; position: number }
+  | ParseProgress
+  | { type: "step"; index: number; total: number; binary: string }
+  | { type: "done" }
+  | { type: "error"; error: string };
+
+/**
+ * Dataset with a time axis but no fields yet, noting any messages left
+ * out of its file
+ */
+export function emptyDataset(
+  refTime: string,
+  timeSteps: DatasetTimeStep[],
+  skippedMessages: SkippedMessage[] = []
+): GribDataset {
+  return {
+    refTime,
+    timeSteps,
+    fields: [],
+    ...(skippedMessages.length > 0 ? { skippedMessages } : {}),
+  };
+}
+
+/**
+ * Steps with one step replaced, leaving the original untouched
+ */
+function withStep<T>(
+  steps: (T | null)[] | undefined,
+  step: T | null,
+  index: number,
+  length: number
+): (T | null)[] {
+  const merged = steps ? [...steps] : new Array<T | null>(length).fill(null);
+  merged[index] = step;
+  return merged;
+}
+
+/**
+ * Ensemble members with one step of each member merged in, by
+ * perturbation number
+ */
+function mergeMembers<T>(
+  members: EnsembleMember<T>[] | undefined,
+  incoming: EnsembleMember<T>[] | undefined,
+  index: number,
+  length: number
+): EnsembleMember<T>[] | undefined {
+  if (!incoming) return members;
+  const merged = [...(members ?? [])];
+  for (const member of incoming) {
+    const at = merged.findIndex(
+      (m) => m.perturbationNumber === member.perturbationNumber
+    );
+    const steps = withStep(
+      at === -1 ? undefined : merged[at].steps,
+      member.steps[index] ?? null,
+      index,
+      length
+    );
+    const next = { perturbationNumber: member.perturbationNumber, steps };
+    if (at === -1) merged.push(next);
+    else merged[at] = next;
+  }
+  return merged.sort((a, b) => a.perturbationNumber - b.perturbationNumber);
+}
+
+function mergeField(
+  existing: DatasetField | undefined,
+  field: DatasetField,
+  index: number,
+  length: number
+): DatasetField {
+  // Fields keep their kind, so steps and members line up with `existing`
+  const steps = withStep<unknown>(
+    existing?.steps,
+    field.steps[index] ?? null,
+    index,
+    length
+  );
+  const members = mergeMembers<unknown>(
+    existing?.members,
+    field.members,
+    index,
+    length
+  );
+  const directionFieldId =
+    field.kind === "scalar"
+      ? (field.directionFieldId ??
+        (existing?.kind === "scalar" ? existing.directionFieldId : undefined))
+      : undefined;
+
+  return {
+    ...field,
+    ...(directionFieldId ? { directionFieldId } : {}),
+    steps,
+    ...(members ? { members } : {}),
+  } as DatasetField;
+}
+
+/**
+ * Dataset with one time step of some fields merged in: step `index` of
+ * each field (and of its ensemble members) is copied over. Fields new to
+ * the dataset are placed after the fields before them in `fields`.
+ */
+export function mergeDatasetStep(
+  dataset: GribDataset,
+  fields: DatasetField[],
+  index: number
+): GribDataset {
+  const length = dataset.timeSteps.length;
+  const merged = [...dataset.fields];
+  let insertAt = 0;
+
+  for (const field of fields) {
+    const at = merged.findIndex((f) => f.id === field.id);
+    if (at === -1) {
+      merged.splice(insertAt, 0, mergeField(undefined, field, index, length));
+      insertAt++;
+    } else {
+      merged[at] = mergeField(merged[at], field, index, length);
+      insertAt = at + 1;
+    }
+  }
+
+  return { ...dataset, fields: merged };
+}
@@ -0,0 +1,371 @@
+/**
+ * Exporting a field of a parsed dataset for other tools: a point grid as
+ * CSV for spreadsheets, GeoJSON points for QGIS and KML with wind barbs
+ * for OpenCPN and Google Earth
+ * This file is shared between client and server
+ *
+ * Vector fields are written as speed in knots and direction in degrees:
+ * where the wind comes from, or where a current flows to, as sailors
+ * read them. Scalar fields are written in their display units (see
+ * units.ts). Missing points are left out.
+ */
+
+import type {
+  DatasetField,
+  GribDataset,
+  VelocityComponent,
+  VelocityData,
+} from "../.server/parser";
+import { displayUnit, formatLevel } from "./units";
+import { normalizeLongitude } from "./regions";
+
+export type ExportFormat = "csv" | "geojson" | "kml";
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; contentType: string }
+> = {
+  csv: { label: "CSV", extension: "csv", contentType: "text/csv" },
+  geojson: {
+    label: "GeoJSON",
+    extension: "geojson",
+    contentType: "application/geo+json",
+  },
+  kml: {
+    label: "KML",
+    extension: "kml",
+    contentType: "application/vnd.google-earth.kml+xml",
+  },
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && value in EXPORT_FORMATS;
+}
+
+/**
+ * What to export: one field (or one of its ensemble members) at some
+ * time steps
+ */
+export interface ExportSelection {
+  dataset: GribDataset;
+  field: DatasetField;
+  // Ensemble member, or null for the field's own steps
+  member?: number | null;
+  // Indexes into dataset.timeSteps
+  steps: number[];
+}
+
+/**
+ * One grid point's values at one time step
+ */
+type ExportPoint = {
+  lat: number;
+  lon: number;
+  validTime: string;
+  forecastHour: number;
+} & (
+  | { kind: "vector"; u: number; v: number; speed: number; direction: number }
+  | { kind: "scalar"; value: number }
+);
+
+const KNOTS_PER_METRE_PER_SECOND = 1.943844;
+
+/**
+ * Value at a point, NaN where missing (null once sent as JSON)
+ */
+function valueAt(component: VelocityComponent, index: number): number {
+  return component.data[index] ?? NaN;
+}
+
+function round(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * Compass direction in degrees of a U/V vector: where it comes from for
+ * wind, where it goes to for currents
+ */
+function vectorDirection(u: number, v: number, from: boolean): number {
+  const to = (Math.atan2(u, v) * 180) / Math.PI;
+  return (((from ? to + 180 : to) % 360) + 360) % 360;
+}
+
+/**
+ * Whether a field has an ensemble member with this perturbation number
+ */
+export function hasMember(field: DatasetField, member: number): boolean {
+  return field.members?.some((m) => m.perturbationNumber === member) ?? false;
+}
+
+function stepData(
+  selection: ExportSelection,
+  index: number
+): VelocityComponent | VelocityData | null {
+  const { field, member } = selection;
+  const steps =
+    member === undefined || member === null
+      ? field.steps
+      : (field.members?.find((m) => m.perturbationNumber === member)?.steps ??
+        []);
+  return steps[index] ?? null;
+}
+
+/**
+ * Every point with data at one time step, rows north to south
+ */
+function* stepPoints(
+  selection: ExportSelection,
+  index: number
+): Generator<ExportPoint> {
+  const { dataset, field } = selection;
+  const timeStep = dataset.timeSteps[index];
+  const data = stepData(selection, index);
+  if (!timeStep || !data) return;
+
+  const scalarUnit = displayUnit(field.units);
+  const from = field.parameter !== "current";
+  const header = Array.isArray(data) ? data[0].header : data.header;
+  for (let j = 0; j < header.ny; j++) {
+    const lat = round(header.la1 - j * header.dy, 4);
+    for (let i = 0; i < header.nx; i++) {
+      const lon = round(normalizeLongitude(header.lo1 + i * header.dx), 4);
+      const point = { lat, lon, ...timeStep };
+      const at = j * header.nx + i;
+
+      if (Array.isArray(data)) {
+        const u = valueAt(data[0], at);
+        const v = valueAt(data[1], at);
+        if (Number.isNaN(u) || Number.isNaN(v)) continue;
+        yield {
+          ...point,
+          kind: "vector",
+          u: round(u, 2),
+          v: round(v, 2),
+          speed: round(Math.hypot(u, v) * KNOTS_PER_METRE_PER_SECOND, 1),
+          direction: Math.round(vectorDirection(u, v, from)) % 360,
+        };
+      } else {
+        const value = valueAt(data, at);
+        if (Number.isNaN(value)) continue;
+        yield {
+          ...point,
+          kind: "scalar",
+          value: round(scalarUnit.convert(value), 2),
+        };
+      }
+    }
+  }
+}
+
+/**
+ * Every point with data at each selected time step, in turn
+ */
+function* exportPoints(selection: ExportSelection): Generator<ExportPoint> {
+  for (const index of selection.steps) yield* stepPoints(selection, index);
+}
+
+function exportCsv(selection: ExportSelection): string {
+  const vector = selection.field.kind === "vector";
+  const units = displayUnit(selection.field.units).label;
+  const lines = [
+    vector
+      ? "lat,lon,valid_time,speed_kn,direction_deg"
+      : "lat,lon,valid_time,value,units",
+  ];
+  for (const point of exportPoints(selection)) {
+    const values =
+      point.kind === "vector"
+        ? [point.speed, point.direction]
+        : [point.value, units];
+    lines.push([point.lat, point.lon, point.validTime, ...values].join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+function exportGeoJson(selection: ExportSelection): string {
+  const { field } = selection;
+  const units = displayUnit(field.units).label;
+  const features = [];
+  for (const { lat, lon, validTime, forecastHour, ...point } of exportPoints(
+    selection
+  )) {
+    const properties =
+      point.kind === "vector"
+        ? {
+            valid_time: validTime,
+            forecast_hour: forecastHour,
+            u: point.u,
+            v: point.v,
+            speed_kn: point.speed,
+            direction_deg: point.direction,
+          }
+        : {
+            valid_time: validTime,
+            forecast_hour: forecastHour,
+            value: point.value,
+            units,
+          };
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [lon, lat] },
+      properties,
+    });
+  }
+  return JSON.stringify({
+    type: "FeatureCollection",
+    name: exportTitle(selection),
+    features,
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Wind barb at a point as KML geometry: a staff pointing into the wind,
+ * with pennants (50 kn), full barbs (10 kn) and half barbs (5 kn) at its
+ * far end, on the clockwise side in the northern hemisphere. `length` is
+ * the staff length in degrees of latitude.
+ */
+function barbGeometry(
+  lat: number,
+  lon: number,
+  speed: number,
+  direction: number,
+  length: number
+): string {
+  const radians = (direction * Math.PI) / 180;
+  // Staff and feather directions in (east, north) degrees
+  const staff = [Math.sin(radians), Math.cos(radians)];
+  const side = lat >= 0 ? 1 : -1;
+  const feather = [side * staff[1], -side * staff[0]];
+  const lonScale = 1 / Math.max(0.1, Math.cos((lat * Math.PI) / 180));
+
+  // Point `along` the staff from its foot, `out` to the feather side
+  const at = (along: number, out: number) =>
+    `${round(lon + (staff[0] * along + feather[0] * out) * lonScale, 5)},${round(
+      lat + staff[1] * along + feather[1] * out,
+      5
+    )}`;
+
+  const spacing = length * 0.15;
+  const featherLength = length * 0.4;
+  const parts = [
+    `<LineString><coordinates>${at(0, 0)} ${at(length, 0)}</coordinates></LineString>`,
+  ];
+
+  let rest = Math.round(speed / 5) * 5;
+  let along = length;
+  while (rest >= 50) {
+    parts.push(
+      `<Polygon><outerBoundaryIs><LinearRing><coordinates>${at(along, 0)} ${at(along - spacing / 2, featherLength)} ${at(along - spacing, 0)} ${at(along, 0)}</coordinates></LinearRing></outerBoundaryIs></Polygon>`
+    );
+    rest -= 50;
+    along -= spacing * 1.3;
+  }
+  // A lone half barb sits one space in from the end
+  if (rest === 5 && along === length) along -= spacing;
+  while (rest >= 5) {
+    const size = rest >= 10 ? featherLength : featherLength / 2;
+    parts.push(
+      `<LineString><coordinates>${at(along, 0)} ${at(along + size * 0.35, size)}</coordinates></LineString>`
+    );
+    rest -= rest >= 10 ? 10 : 5;
+    along -= spacing;
+  }
+  return `<MultiGeometry>${parts.join("")}</MultiGeometry>`;
+}
+
+function exportKml(selection: ExportSelection): string {
+  const { dataset, field } = selection;
+  const units = displayUnit(field.units).label;
+  const heading = field.parameter === "current" ? "towards" : "from";
+
+  // Barbs fill about two thirds of the space between grid points
+  const header = selection.steps
+    .map((index) => stepData(selection, index))
+    .map((data) => (Array.isArray(data) ? data[0].header : data?.header))
+    .find((h) => h !== undefined);
+  const barbLength = header ? Math.min(header.dx, header.dy) * 0.65 : 0.2;
+
+  const folders = selection.steps.flatMap((index, position) => {
+    const timeStep = dataset.timeSteps[index];
+    if (!timeStep) return [];
+    // Each step shows until the next one, for the time slider
+    const next = dataset.timeSteps[selection.steps[position + 1] ?? -1];
+    const placemarks = [...stepPoints(selection, index)].map((point) => {
+      if (point.kind === "vector") {
+        return `<Placemark><styleUrl>#barb</styleUrl><description>${point.speed} kn ${heading} ${point.direction}°</description>${barbGeometry(point.lat, point.lon, point.speed, point.direction, barbLength)}</Placemark>`;
+      }
+      return `<Placemark><name>${point.value}</name><description>${point.value} ${escapeXml(units)}</description><Point><coordinates>${point.lon},${point.lat}</coordinates></Point></Placemark>`;
+    });
+    const span = next
+      ? `<TimeSpan><begin>${timeStep.validTime}</begin><end>${next.validTime}</end></TimeSpan>`
+      : `<TimeStamp><when>${timeStep.validTime}</when></TimeStamp>`;
+    return [
+      `<Folder><name>${escapeXml(timeStep.validTime)}</name>${span}${placemarks.join("\n")}</Folder>`,
+    ];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    `<name>${escapeXml(exportTitle(selection))}</name>`,
+    '<Style id="barb"><LineStyle><color>ff000000</color><width>1.5</width></LineStyle><PolyStyle><color>ff000000</color></PolyStyle></Style>',
+    ...folders,
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+}
+
+/**
+ * Name of the export, e.g. "Wind 10 m, 2026-01-02T12:00:00Z run"
+ */
+function exportTitle({ dataset, field, member }: ExportSelection): string {
+  const level = formatLevel(field.typeOfLevel, field.level);
+  const name = level ? `${field.name} ${level}` : field.name;
+  const memberName =
+    member !== undefined && member !== null ? ` member ${member}` : "";
+  return `${name}${memberName}, ${dataset.refTime} run`;
+}
+
+/**
+ * Serialize a field in one of the export formats
+ */
+export function exportField(
+  selection: ExportSelection,
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "csv":
+      return exportCsv(selection);
+    case "geojson":
+      return exportGeoJson(selection);
+    case "kml":
+      return exportKml(selection);
+  }
+}
+
+/**
+ * File name for an export, e.g. "wind-heightAboveGround-10_20260102T12.csv"
+ */
+export function exportFilename(
+  { dataset, field, member, steps }: ExportSelection,
+  format: ExportFormat
+): string {
+  const run = dataset.refTime.replace(/[-:]/g, "").slice(0, 11);
+  const step =
+    steps.length === 1 && dataset.timeSteps[steps[0]]
+      ? `_f${dataset.timeSteps[steps[0]].forecastHour}`
+      : "";
+  const memberPart =
+    member !== undefined && member !== null ? `_m${member}` : "";
+  const base = `${field.id.replace(/[^\w.-]+/g, "-")}_${run}${step}${memberPart}`;
+  return `${base}.${EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,227 @@
+/**
+ * Checking GRIB files by their content rather than their name: every
+ * message starts with "GRIB", states its length and ends with "7777".
+ * Messages that break this (most often the last one of a download cut
+ * short) are left out, so the rest of the file can still be read.
+ * This file is shared between client and server
+ */
+
+/**
+ * A message left out of a file, and why
+ */
+export interface SkippedMessage {
+  // Place of the message in the file, from 1
+  messageNumber: number;
+  // Byte offset of its "GRIB" indicator
+  offset: number;
+  reason:
+    | "truncated"
+    | "missing-end-marker"
+    | "bad-length"
+    | "bad-sections"
+    | "unknown-edition"
+    | "unsupported-grid";
+  // What is wrong, for users
+  detail: string;
+}
+
+// Bytes searched for the first message when sniffing a file; WMO
+// bulletins put a short heading before it
+export const SNIFF_LENGTH = 4096;
+
+// Octets before the first section: 8 in GRIB1, 16 in GRIB2
+const INDICATOR_LENGTH: Record<number, number> = { 1: 8, 2: 16 };
+
+// GRIB1 length flag for messages over 8 MB (ECMWF), stored in units of
+// 120 octets
+export const GRIB1_LARGE_MESSAGE = 0x800000;
+
+/**
+ * Offset of the next "GRIB" indicator at or after `from`, or -1
+ */
+export function findGribStart(bytes: Uint8Array, from = 0): number {
+  for (let offset = from; offset + 4 <= bytes.length; offset++) {
+    if (
+      bytes[offset] === 0x47 &&
+      bytes[offset + 1] === 0x52 &&
+      bytes[offset + 2] === 0x49 &&
+      bytes[offset + 3] === 0x42
+    ) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Whether the start of a file (see SNIFF_LENGTH) holds a GRIB message
+ * indicator of edition 1 or 2
+ */
+export function looksLikeGrib(head: Uint8Array): boolean {
+  for (
+    let offset = findGribStart(head);
+    offset !== -1;
+    offset = findGribStart(head, offset + 4)
+  ) {
+    if (offset + 8 > head.length) return true;
+    if (head[offset + 7] in INDICATOR_LENGTH) return true;
+  }
+  return false;
+}
+
+function endsWith7777(bytes: Uint8Array, end: number): boolean {
+  return (
+    bytes[end - 4] === 0x37 &&
+    bytes[end - 3] === 0x37 &&
+    bytes[end - 2] === 0x37 &&
+    bytes[end - 1] === 0x37
+  );
+}
+
+function uint3(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+}
+
+function uint4(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset] * 0x1000000 +
+    ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3])
+  );
+}
+
+/**
+ * Length a message states for itself. Large GRIB1 messages only give it
+ * roughly, so their end is taken as the next message (or the end of the
+ * file).
+ */
+export function statedLength(
+  bytes: Uint8Array,
+  offset: number,
+  edition: number
+): number {
+  if (edition === 2) {
+    return uint4(bytes, offset + 8) * 0x100000000 + uint4(bytes, offset + 12);
+  }
+  const length = uint3(bytes, offset + 4);
+  if (!(length & GRIB1_LARGE_MESSAGE)) return length;
+  const next = findGribStart(bytes, offset + 8);
+  return (next === -1 ? bytes.length : next) - offset;
+}
+
+/**
+ * Whether a GRIB2 message's sections, each stating its own length, fill
+ * it exactly up to the end marker
+ */
+function sectionsFit(bytes: Uint8Array, offset: number, end: number): boolean {
+  let section = offset + 16;
+  while (section < end - 4) {
+    if (section + 5 > end - 4) return false;
+    const length = uint4(bytes, section);
+    if (length < 5) return false;
+    section += length;
+  }
+  return section === end - 4;
+}
+
+/**
+ * Where a message kept in the intact file was in the given one
+ */
+export interface MessageOrigin {
+  messageNumber: number;
+  offset: number;
+}
+
+/**
+ * Find the messages of a GRIB file and check that each is whole,
+ * returning the file with the damaged ones left out, and for each
+ * message of it, in order, its number and offset in the given file.
+ * Throws when there is no message at all, or none is whole.
+ */
+export function checkGribMessages(bytes: Uint8Array): {
+  intact: Uint8Array;
+  origins: MessageOrigin[];
+  skipped: SkippedMessage[];
+} {
+  const kept: [number, number][] = [];
+  const origins: MessageOrigin[] = [];
+  const skipped: SkippedMessage[] = [];
+  let messageNumber = 0;
+
+  let offset = findGribStart(bytes);
+  while (offset !== -1) {
+    messageNumber++;
+    const edition = bytes[offset + 7];
+    const skip = (reason: SkippedMessage["reason"], detail: string) => {
+      skipped.push({ messageNumber, offset, reason, detail });
+      // Look for the next message past this indicator, as the stated
+      // length cannot be trusted
+      offset = findGribStart(bytes, offset + 4);
+    };
+
+    const indicatorLength = INDICATOR_LENGTH[edition];
+    if (offset + 8 > bytes.length) {
+      skip("truncated", "The file ends inside the message's first octets");
+      continue;
+    }
+    if (!indicatorLength) {
+      skip("unknown-edition", `GRIB edition ${edition} is not supported`);
+      continue;
+    }
+    if (offset + indicatorLength > bytes.length) {
+      skip("truncated", "The file ends inside the message's first octets");
+      continue;
+    }
+
+    const length = statedLength(bytes, offset, edition);
+    if (length < indicatorLength + 4) {
+      skip("bad-length", `The message states a length of ${length} bytes`);
+      continue;
+    }
+    const end = offset + length;
+    if (end > bytes.length) {
+      skip(
+        "truncated",
+        `The file ends ${end - bytes.length} bytes before the message does (${bytes.length - offset} of ${length} bytes)`
+      );
+      continue;
+    }
+    if (!endsWith7777(bytes, end)) {
+      skip(
+        "missing-end-marker",
+        `The message does not end with "7777" where its stated length of ${length} bytes ends`
+      );
+      continue;
+    }
+    if (edition === 2 && !sectionsFit(bytes, offset, end)) {
+      skip(
+        "bad-sections",
+        "The message's section lengths do not add up to its length"
+      );
+      continue;
+    }
+
+    kept.push([offset, end]);
+    origins.push({ messageNumber, offset });
+    offset = findGribStart(bytes, end);
+  }
+
+  if (messageNumber === 0) {
+    throw new Error("Not a GRIB file: no GRIB messages found");
+  }
+  if (kept.length === 0) {
+    throw new Error(
+      `No readable GRIB messages in the file: ${skipped[0].detail}`
+    );
+  }
+  if (skipped.length === 0) return { intact: bytes, origins, skipped };
+
+  const intact = new Uint8Array(
+    kept.reduce((sum, [start, end]) => sum + end - start, 0)
+  );
+  let position = 0;
+  for (const [start, end] of kept) {
+    intact.set(bytes.subarray(start, end), position);
+    position += end - start;
+  }
+  return { intact, origins, skipped };
+}
@@ -3,6 +3,11 @@
  * This file is shared between client and server
  */
 
+/**
+ * Latitude/longitude box. West and east are the edges going eastwards,
+ * so a region crossing the antimeridian has west > east (e.g. 160 to
+ * -160 for 160°E to 160°W).
+ */
 export interface Region {
   north: number;
   south: number;
@@ -18,4 +23,64 @@ export const PRESET_REGIONS: Record<string, Region> = {
   "US East Coast": { north: 45, south: 25, east: -65, west: -82 },
   "Pacific Northwest": { north: 55, south: 40, east: -120, west: -140 },
   "Gulf of Mexico": { north: 31, south: 18, east: -80, west: -98 },
+  "North Pacific": { north: 50, south: 20, east: -120, west: 140 },
+  "South Pacific": { north: -5, south: -30, east: -140, west: 165 },
 };
+
+/**
+ * Region from a preset name or "west,south,east,north" in degrees, or
+ * null when it is neither
+ */
+export function parseRegion(text: string): Region | null {
+  const preset = PRESET_REGIONS[text.trim()];
+  if (preset) return preset;
+
+  const bounds = text.split(",").map((part) => Number(part.trim()));
+  const [west, south, east, north] = bounds;
+  if (
+    bounds.length !== 4 ||
+    !bounds.every(Number.isFinite) ||
+    !(south >= -90 && north <= 90 && south < north)
+  ) {
+    return null;
+  }
+  return { north, south, east, west };
+}
+
+/**
+ * Longitude in the range -180 (inclusive) to 180
+ */
+export function normalizeLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Longitude span of a region in degrees, measured eastwards from its
+ * west edge
+ */
+export function regionWidth(region: Region): number {
+  if (region.east - region.west >= 360) return 360;
+  return (((region.east - region.west) % 360) + 360) % 360;
+}
+
+/**
+ * Whether a region crosses the 180° meridian
+ */
+export function crossesAntimeridian(region: Region): boolean {
+  return (
+    regionWidth(region) < 360 &&
+    normalizeLongitude(region.west) + regionWidth(region) > 180
+  );
+}
+
+/**
+ * Centre of a region as [lat, lon]. The longitude continues eastwards
+ * from the west edge, so it may exceed 180 for regions crossing the
+ * antimeridian; Leaflet then keeps the whole region in one view.
+ */
+export function regionCenter(region: Region): [number, number] {
+  return [
+    (region.north + region.south) / 2,
+    region.west + regionWidth(region) / 2,
+  ];
+}
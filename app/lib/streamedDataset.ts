@@ -0,0 +1,40 @@
+/**
+ * The dataset of an upload still streaming in from the server, shared
+ * between the upload form that receives it and the viewer showing it
+ * Client only: the viewer opens on the first time step and follows the
+ * rest as they arrive.
+ */
+
+import type { GribDataset } from "../.server/parser";
+
+export interface StreamedDataset {
+  // Identifies the upload, so the viewer only follows its own
+  id: string;
+  dataset: GribDataset;
+  // Whether each time step has arrived
+  loaded: boolean[];
+  complete: boolean;
+  error: string | null;
+}
+
+let current: StreamedDataset | null = null;
+const listeners = new Set<() => void>();
+
+export function getStreamedDataset(): StreamedDataset | null {
+  return current;
+}
+
+/**
+ * Replace the streamed dataset and tell its followers
+ */
+export function publishStreamedDataset(next: StreamedDataset): void {
+  current = next;
+  for (const listener of listeners) listener();
+}
+
+export function subscribeStreamedDataset(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
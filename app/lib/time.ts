@@ -0,0 +1,26 @@
+/**
+ * Forecast time labels
+ * This file is shared between client and server
+ */
+
+/**
+ * Forecast step as an offset from the reference time, e.g. "+6h",
+ * "+1d 6h" or "+45m" for sub-hourly steps
+ */
+export function formatForecastHour(hour: number): string {
+  const totalMinutes = Math.round(hour * 60);
+  if (totalMinutes === 0) return "Now";
+
+  const sign = totalMinutes < 0 ? "-" : "+";
+  const minutes = Math.abs(totalMinutes);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+
+  const parts = [
+    days ? `${days}d` : "",
+    hours ? `${hours}h` : "",
+    rest ? `${rest}m` : "",
+  ].filter(Boolean);
+  return `${sign}${parts.join(" ")}`;
+}
@@ -0,0 +1,50 @@
+/**
+ * Display units for GRIB parameter values
+ * This file is shared between client and server
+ */
+
+export interface DisplayUnit {
+  label: string;
+  convert: (value: number) => number;
+}
+
+// GRIB units (as reported in field metadata) to the units sailors read
+const DISPLAY_UNITS: Record<string, DisplayUnit> = {
+  Pa: { label: "hPa", convert: (v) => v / 100 },
+  K: { label: "°C", convert: (v) => v - 273.15 },
+  "kg.m-2": { label: "mm", convert: (v) => v },
+  "kg.m-2.h-1": { label: "mm/h", convert: (v) => v },
+  "m.s-1": { label: "kn", convert: (v) => v * 1.943844 },
+  "Degree true": { label: "°", convert: (v) => v },
+};
+
+// Heights (e.g. waves) can be read in metres or feet
+export type LengthUnit = "m" | "ft";
+
+const FEET: DisplayUnit = { label: "ft", convert: (v) => v * 3.28084 };
+
+/**
+ * Get the display unit for a GRIB unit, or the unit itself if none applies
+ */
+export function displayUnit(
+  units: string,
+  lengthUnit: LengthUnit = "m"
+): DisplayUnit {
+  if (units === "m" && lengthUnit === "ft") return FEET;
+  return DISPLAY_UNITS[units] ?? { label: units, convert: (v) => v };
+}
+
+/**
+ * Human-readable level, e.g. "10 m" or "850 hPa" (empty for surface levels)
+ */
+export function formatLevel(typeOfLevel: string, level: number): string {
+  switch (typeOfLevel) {
+    case "heightAboveGround":
+    case "heightAboveSea":
+      return `${level} m`;
+    case "isobaricInhPa":
+      return `${level} hPa`;
+    default:
+      return "";
+  }
+}
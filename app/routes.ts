@@ -4,5 +4,9 @@ export default [
   index("routes/home.tsx"),
   route("viewer", "routes/viewer.tsx"),
   route("api/parse", "routes/api.parse.tsx"),
+  route("api/inspect", "routes/api.inspect.tsx"),
+  route("api/export", "routes/api.export.tsx"),
+  route("api/subset", "routes/api.subset.tsx"),
+  route("api/jobs/:id", "routes/api.jobs.$id.tsx"),
   route("*", "routes/404.tsx"),
 ] satisfies RouteConfig;
@@ -0,0 +1,150 @@
+/**
+ * API endpoint for exporting a GRIB file's forecast to other tools
+ *
+ * POST /api/export
+ * - Accepts multipart/form-data with a "file" field and a "format":
+ *   "csv" (lat, lon, valid time, speed in kn, direction), "geojson"
+ *   (points with wind properties) or "kml" (wind barbs per time step)
+ * - Optionally "field" (a dataset field id, e.g.
+ *   "wind:heightAboveGround:10"; the first field by default),
+ *   "forecastHours" (comma-separated; every step by default) and
+ *   "member" (an ensemble perturbation number)
+ * - Uses the parse cache, so files already opened in the viewer export
+ *   right away; others are parsed through the job queue first
+ * - Returns the export as a file download
+ */
+
+import type { Route } from "./+types/api.export";
+import type { GribDataset } from "../.server/parser";
+import { runJob } from "../.server/jobs";
+import { downloadResponse, jsonResponse } from "../.server/responses";
+import { readGribUpload } from "../.server/uploads";
+import {
+  parseAndCache,
+  parseCacheKey,
+  readCachedDataset,
+} from "../.server/cache";
+import {
+  EXPORT_FORMATS,
+  exportField,
+  exportFilename,
+  hasMember,
+  isExportFormat,
+} from "../lib/export";
+
+export async function action({ request }: Route.ActionArgs) {
+  try {
+    const formData = await request.formData();
+    const file = await readGribUpload(formData);
+    if (typeof file === "string") {
+      return jsonResponse({ error: file }, 400);
+    }
+
+    const format = formData.get("format");
+    if (!isExportFormat(format)) {
+      return jsonResponse(
+        {
+          error: `Format must be one of ${Object.keys(EXPORT_FORMATS).join(", ")}`,
+        },
+        400
+      );
+    }
+
+    const memberValue = formData.get("member");
+    const member =
+      typeof memberValue === "string" && memberValue !== ""
+        ? Number(memberValue)
+        : null;
+    if (member !== null && !Number.isInteger(member)) {
+      return jsonResponse(
+        { error: "Member must be a perturbation number" },
+        400
+      );
+    }
+
+    // Same options as a full parse from the home page, to share its cache
+    const buffer = await file.arrayBuffer();
+    const cacheKey = parseCacheKey(buffer, {});
+    const datasetJson =
+      (await readCachedDataset(cacheKey)) ??
+      (await runJob(() => parseAndCache(cacheKey, buffer, file.name, {})));
+    if (datasetJson === null) {
+      return jsonResponse(
+        {
+          error:
+            "Server busy processing other files. Please try again in a moment.",
+        },
+        503
+      );
+    }
+    const dataset = JSON.parse(datasetJson) as GribDataset;
+
+    const fieldId = formData.get("field");
+    const field =
+      typeof fieldId === "string" && fieldId !== ""
+        ? dataset.fields.find((f) => f.id === fieldId)
+        : dataset.fields[0];
+    if (!field) {
+      return jsonResponse(
+        {
+          error: `Unknown field. Available fields: ${dataset.fields.map((f) => f.id).join(", ")}`,
+        },
+        400
+      );
+    }
+
+    if (member !== null && !hasMember(field, member)) {
+      const members = field.members?.map((m) => m.perturbationNumber) ?? [];
+      return jsonResponse(
+        {
+          error:
+            members.length > 0
+              ? `Field ${field.id} has no member ${member}. Members: ${members.join(", ")}`
+              : `Field ${field.id} has no ensemble members`,
+        },
+        400
+      );
+    }
+
+    let steps = dataset.timeSteps.map((_, index) => index);
+    const hoursValue = formData.get("forecastHours");
+    if (typeof hoursValue === "string" && hoursValue.trim() !== "") {
+      const hours = hoursValue.split(",").map((hour) => Number(hour.trim()));
+      steps = steps.filter((index) =>
+        hours.includes(dataset.timeSteps[index].forecastHour)
+      );
+      if (steps.length === 0) {
+        return jsonResponse(
+          { error: "None of the requested forecast hours are in the file" },
+          400
+        );
+      }
+    }
+
+    const selection = { dataset, field, member, steps };
+    return downloadResponse(
+      exportField(selection, format),
+      EXPORT_FORMATS[format].contentType,
+      exportFilename(selection, format)
+    );
+  } catch (error) {
+    console.error("Export error:", error);
+    return jsonResponse(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to export GRIB file",
+      },
+      500
+    );
+  }
+}
+
+// Handle GET requests
+export async function loader() {
+  return jsonResponse(
+    { error: "This endpoint only accepts POST requests with a GRIB file." },
+    405
+  );
+}
+
+// No default export - this is a resource route (API-only)
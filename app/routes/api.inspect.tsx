@@ -0,0 +1,51 @@
+/**
+ * API endpoint for listing the messages in a GRIB file
+ *
+ * POST /api/inspect
+ * - Accepts multipart/form-data with a "file" field
+ * - Returns the file's GribInventory as `data`: every message's
+ *   parameter, level, step, grid, edition, centre and size, without
+ *   decoding any values
+ * - Clients pick variables, levels and steps from it and pass them to
+ *   /api/parse
+ */
+
+import type { Route } from "./+types/api.inspect";
+import { inspectGribBuffer } from "../.server/parser";
+import { jsonResponse } from "../.server/responses";
+import { readGribUpload } from "../.server/uploads";
+
+export async function action({ request }: Route.ActionArgs) {
+  try {
+    const formData = await request.formData();
+    const file = await readGribUpload(formData);
+    if (typeof file === "string") {
+      return jsonResponse({ error: file }, 400);
+    }
+
+    const inventory = await inspectGribBuffer(
+      await file.arrayBuffer(),
+      file.name
+    );
+    return jsonResponse({ success: true, data: inventory });
+  } catch (error) {
+    console.error("Inspect error:", error);
+    return jsonResponse(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to read GRIB file",
+      },
+      500
+    );
+  }
+}
+
+// Handle GET requests
+export async function loader() {
+  return jsonResponse(
+    { error: "This endpoint only accepts POST requests with a GRIB file." },
+    405
+  );
+}
+
+// No default export - this is a resource route (API-only)
@@ -0,0 +1,59 @@
+/**
+ * API endpoint for parse job status
+ *
+ * GET /api/jobs/:id
+ * - Returns the job's status: "queued" (with its position in the
+ *   queue), "running", "done" (with the GribDataset as `data`) or
+ *   "failed" (with an `error`)
+ * - The dataset of a finished job comes in the binary format instead
+ *   (see binaryDataset.ts) when the request accepts it
+ * - 404 for unknown jobs, including finished jobs past their retention,
+ *   and 410 for finished jobs whose dataset is no longer in the parse
+ *   cache
+ */
+
+import type { Route } from "./+types/api.jobs.$id";
+import { getJob } from "../.server/jobs";
+import {
+  acceptedBinaryPrecision,
+  binaryDatasetResponse,
+  datasetResponse,
+  jsonResponse,
+} from "../.server/responses";
+import { readCachedBinaryDataset, readCachedDataset } from "../.server/cache";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const job = getJob(params.id);
+  if (!job) {
+    return jsonResponse({ error: "Job not found or expired" }, 404);
+  }
+
+  const fields = { jobId: job.id, status: job.status };
+  switch (job.status) {
+    case "done": {
+      // The job's result is the dataset's parse cache key
+      const key = job.result;
+      const precision = acceptedBinaryPrecision(request);
+      if (key && precision) {
+        const payload = await readCachedBinaryDataset(key, precision);
+        if (payload) return binaryDatasetResponse(payload);
+      } else if (key) {
+        const datasetJson = await readCachedDataset(key);
+        if (datasetJson) return datasetResponse(datasetJson, fields);
+      }
+      return jsonResponse(
+        {
+          ...fields,
+          error: "The job's dataset is no longer cached. Please upload again.",
+        },
+        410
+      );
+    }
+    case "failed":
+      return jsonResponse({ ...fields, error: job.error });
+    default:
+      return jsonResponse({ ...fields, position: job.position });
+  }
+}
+
+// No default export - this is a resource route (API-only)
@@ -2,84 +2,168 @@
  * API endpoint for parsing GRIB files
  *
  * POST /api/parse
- * - Accepts multipart/form-data with a "file" field
- * - Parses the GRIB file in-memory
- * - Returns the parsed velocity data as JSON (no storage)
+ * - Accepts multipart/form-data with a "file" field, and optionally a
+ *   "resolution" in degrees for Gaussian grids (ECMWF) interpolated onto
+ *   regular lat/lon
+ * - Optionally subsets the dataset: "bbox" ("west,south,east,north" in
+ *   degrees, or a preset region name from regions.ts) crops every grid,
+ *   "stride" (points per block) or "targetResolution" (degrees) averages
+ *   them down, and "fromHour" / "toHour" keep a range of forecast hours
+ * - Optionally decodes only what was picked from the inventory (see
+ *   /api/inspect): comma-separated "parameters" (field parameters, e.g.
+ *   "wind,prmsl"), "levels" ("typeOfLevel:level") and "forecastHours"
+ * - Returns the cached GribDataset right away when the same file was
+ *   parsed with the same options before
+ * - Otherwise queues a parse job and returns 202 with its jobId and
+ *   queue position; poll GET /api/jobs/:id for the dataset
+ * - Or, when the request accepts text/event-stream, streams the job as
+ *   server-sent events (see ParseEvent): "queued" with the position
+ *   while it waits, "inventory" with the time axis, "step" with each
+ *   time step's fields as soon as they are decoded, then "done" or
+ *   "error"
+ * - Grids come as JSON arrays, or in the compact binary format (see
+ *   binaryDataset.ts) when the request accepts
+ *   application/vnd.griblet.dataset
  */
 
 import type { Route } from "./+types/api.parse";
+import type { ParseOptions } from "../.server/parser";
+import { submitJob } from "../.server/jobs";
 import {
-  parseGribBuffer,
-  checkEccodes,
-  type MultiTimeVelocityData,
-} from "../.server/parser";
-
-// Max file size: 50MB
-const MAX_FILE_SIZE = 50 * 1024 * 1024;
+  readGribUpload,
+  readSelectionOptions,
+  readSubsetOptions,
+} from "../.server/uploads";
+import {
+  acceptedBinaryPrecision,
+  binaryDatasetResponse,
+  binaryPayloadText,
+  datasetResponse,
+  eventStream,
+  jsonResponse,
+} from "../.server/responses";
+import type { ParseEvent } from "../lib/dataset";
+import {
+  parseAndCache,
+  parseCacheKey,
+  readCachedBinaryDataset,
+  readCachedDataset,
+} from "../.server/cache";
 
-// Helper to return JSON responses
-function jsonResponse(body: object, status = 200) {
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: { "Content-Type": "application/json" },
-  });
-}
+// Accepted target resolutions for Gaussian grids, in degrees
+const MIN_RESOLUTION = 0.1;
+const MAX_RESOLUTION = 5;
 
 export async function action({ request }: Route.ActionArgs) {
   try {
-    // Check if eccodes is available
-    const eccodesAvailable = await checkEccodes();
-    if (!eccodesAvailable) {
-      return jsonResponse(
-        {
-          error:
-            "Server not configured for GRIB parsing. Please install eccodes.",
-        },
-        500
-      );
-    }
-
     const formData = await request.formData();
-    const file = formData.get("file");
-
-    if (!file || !(file instanceof File)) {
-      return jsonResponse({ error: "No file provided" }, 400);
+    const file = await readGribUpload(formData);
+    if (typeof file === "string") {
+      return jsonResponse({ error: file }, 400);
     }
 
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
+    const resolutionValue = formData.get("resolution");
+    const resolution =
+      typeof resolutionValue === "string" && resolutionValue !== ""
+        ? Number(resolutionValue)
+        : undefined;
+    if (
+      resolution !== undefined &&
+      !(resolution >= MIN_RESOLUTION && resolution <= MAX_RESOLUTION)
+    ) {
       return jsonResponse(
         {
-          error: `File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+          error: `Resolution must be between ${MIN_RESOLUTION} and ${MAX_RESOLUTION} degrees`,
         },
         400
       );
     }
 
-    // Validate file type
-    const validExtensions = [".grb", ".grb2", ".grib", ".grib2"];
-    const hasValidExtension = validExtensions.some((ext) =>
-      file.name.toLowerCase().endsWith(ext)
+    const subset = readSubsetOptions(formData);
+    if (typeof subset === "string") {
+      return jsonResponse({ error: subset }, 400);
+    }
+    const selection = readSelectionOptions(formData);
+    if (typeof selection === "string") {
+      return jsonResponse({ error: selection }, 400);
+    }
+
+    const buffer = await file.arrayBuffer();
+    const options: ParseOptions = {
+      gaussianResolution: resolution,
+      ...subset,
+      ...selection,
+    };
+    const cacheKey = parseCacheKey(buffer, options);
+    const precision = acceptedBinaryPrecision(request);
+    const headers = { "X-Cache": "HIT" };
+    if (precision) {
+      const cached = await readCachedBinaryDataset(cacheKey, precision);
+      if (cached) return binaryDatasetResponse(cached, headers);
+    } else {
+      const cached = await readCachedDataset(cacheKey);
+      if (cached) return datasetResponse(cached, {}, headers);
+    }
+
+    const events = request.headers.get("Accept")?.includes("text/event-stream")
+      ? eventStream()
+      : null;
+    const send = (event: ParseEvent) => {
+      if (!events) return;
+      if (precision && event.type === "step" && "fields" in event) {
+        const { fields, ...step } = event;
+        const encoded: ParseEvent = {
+          ...step,
+          binary: binaryPayloadText(fields, precision),
+        };
+        events.send(encoded);
+      } else {
+        events.send(event);
+      }
+    };
+
+    // Parse the GRIB file when a slot is free. The job keeps only the
+    // cache key, and /api/jobs/:id reads the dataset from the cache
+    const job = submitJob(
+      async () => {
+        await parseAndCache(cacheKey, buffer, file.name, options, send);
+        return cacheKey;
+      },
+      (state) => {
+        if (state.status === "queued") {
+          send({ type: "queued", position: state.position });
+        } else if (state.status === "done") {
+          send({ type: "done" });
+          events?.close();
+        } else if (state.status === "failed") {
+          send({ type: "error", error: state.error ?? "Job failed" });
+          events?.close();
+        }
+      }
     );
 
-    if (!hasValidExtension) {
+    if (!job) {
+      events?.close();
       return jsonResponse(
         {
           error:
-            "Invalid file type. Please select a GRIB file (.grb, .grb2, .grib, .grib2)",
+            "Server busy processing other files. Please try again in a moment.",
         },
-        400
+        503
       );
     }
 
-    // Parse the GRIB file
-    const buffer = await file.arrayBuffer();
-    const velocityData: MultiTimeVelocityData = await parseGribBuffer(
-      buffer,
-      file.name
-    );
+    if (events) {
+      if (job.status === "queued") {
+        send({ type: "queued", position: job.position });
+      }
+      return events.response;
+    }
 
-    return jsonResponse({ success: true, data: velocityData });
+    return jsonResponse(
+      { jobId: job.id, status: job.status, position: job.position },
+      202
+    );
   } catch (error) {
     console.error("Parse error:", error);
     return jsonResponse(
@@ -101,4 +185,3 @@ export async function loader() {
 }
 
 // No default export - this is a resource route (API-only)
-
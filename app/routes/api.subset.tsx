@@ -0,0 +1,88 @@
+/**
+ * API endpoint for cutting a GRIB file down to the part a user needs
+ *
+ * POST /api/subset
+ * - Accepts multipart/form-data with a "file" field
+ * - Optionally "bbox" ("west,south,east,north" in degrees, or a preset
+ *   region name from regions.ts) to crop to, "stride" or
+ *   "targetResolution" to average grids down, and "fromHour" /
+ *   "toHour" to keep a range of forecast hours, as for /api/parse
+ * - Optionally "parameters", "levels" and "forecastHours" picked from
+ *   the inventory (see /api/inspect)
+ * - Runs through the job queue, and returns a new GRIB2 file holding
+ *   only that subset for download, with the sizes of the uploaded and
+ *   written files in the X-Original-Size and X-Subset-Size headers
+ */
+
+import type { Route } from "./+types/api.subset";
+import { subsetGribBuffer } from "../.server/parser";
+import { runJob } from "../.server/jobs";
+import { downloadResponse, jsonResponse } from "../.server/responses";
+import {
+  readGribUpload,
+  readSelectionOptions,
+  readSubsetOptions,
+} from "../.server/uploads";
+
+export async function action({ request }: Route.ActionArgs) {
+  try {
+    const formData = await request.formData();
+    const file = await readGribUpload(formData);
+    if (typeof file === "string") {
+      return jsonResponse({ error: file }, 400);
+    }
+
+    const subset = readSubsetOptions(formData);
+    if (typeof subset === "string") {
+      return jsonResponse({ error: subset }, 400);
+    }
+    const selection = readSelectionOptions(formData);
+    if (typeof selection === "string") {
+      return jsonResponse({ error: selection }, 400);
+    }
+
+    const buffer = await file.arrayBuffer();
+    const bytes = await runJob(() =>
+      subsetGribBuffer(buffer, file.name, { ...subset, ...selection })
+    );
+    if (bytes === null) {
+      return jsonResponse(
+        {
+          error:
+            "Server busy processing other files. Please try again in a moment.",
+        },
+        503
+      );
+    }
+
+    const name = file.name.replace(/\.(grb2?|grib2?)$/i, "");
+    return downloadResponse(
+      bytes,
+      "application/x-grib",
+      `${name}_subset.grb2`,
+      {
+        "X-Original-Size": String(file.size),
+        "X-Subset-Size": String(bytes.length),
+      }
+    );
+  } catch (error) {
+    console.error("Subset error:", error);
+    return jsonResponse(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to subset GRIB file",
+      },
+      500
+    );
+  }
+}
+
+// Handle GET requests
+export async function loader() {
+  return jsonResponse(
+    { error: "This endpoint only accepts POST requests with a GRIB file." },
+    405
+  );
+}
+
+// No default export - this is a resource route (API-only)
@@ -3,7 +3,33 @@ import { useNavigate } from "react-router";
 import { Github, CloudUpload, Mail, Lock, Zap } from "lucide-react";
 import type { Route } from "./+types/home";
 import { SaildocsBuilder } from "../components/SaildocsBuilder";
-import type { MultiTimeVelocityData } from "../.server/parser";
+import {
+  InventoryPicker,
+  type InventorySelection,
+  type SubsetRequest,
+  type SubsetSizes,
+} from "../components/InventoryPicker";
+import type {
+  DatasetField,
+  GribDataset,
+  GribInventory,
+} from "../.server/parser";
+import {
+  BINARY_DATASET_TYPE,
+  decodeBinaryDataset,
+  decompressBinaryDataset,
+  fromBase64,
+} from "../lib/binaryDataset";
+import {
+  emptyDataset,
+  mergeDatasetStep,
+  type ParseEvent,
+} from "../lib/dataset";
+import { SNIFF_LENGTH, looksLikeGrib } from "../lib/gribCheck";
+import {
+  publishStreamedDataset,
+  type StreamedDataset,
+} from "../lib/streamedDataset";
 
 const SITE_URL = "https://griblet.app";
 const SITE_NAME = "Griblet";
@@ -205,7 +231,7 @@ export default function Home() {
                   <FeatureCard
                     icon={<Lock className="w-5 h-5" />}
                     title="Private"
-                    description="Files processed in memory only"
+                    description="Files never stored, parsed data cached for a week"
                   />
                   <FeatureCard
                     icon={<Zap className="w-5 h-5" />}
@@ -221,7 +247,10 @@ export default function Home() {
         </main>
 
         <footer className="relative text-center py-8 text-slate-500 text-sm space-y-3">
-          <p>Free. No signup required. No data stored.</p>
+          <p>
+            Free. No signup required. Uploaded files are never stored; only
+            their parsed data, cached for up to a week.
+          </p>
           <div className="flex items-center justify-center gap-3">
             <a
               href="https://github.com/ilias-t/griblet"
@@ -248,10 +277,186 @@ export default function Home() {
   );
 }
 
+// How often to ask the server about a queued parse
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// Grids in the compact binary format, falling back to JSON
+const DATASET_ACCEPT = `${BINARY_DATASET_TYPE}, application/json`;
+
+/**
+ * Read an API response as JSON, throwing its error message on failure.
+ * Binary datasets are decoded into the same shape as JSON ones.
+ */
+async function readApiResponse(response: Response) {
+  const contentType = response.headers.get("content-type");
+  if (response.ok && contentType?.includes(BINARY_DATASET_TYPE)) {
+    return {
+      success: true,
+      status: "done",
+      data: decodeBinaryDataset<GribDataset>(await response.arrayBuffer()),
+    };
+  }
+
+  // Check if response is JSON before parsing
+  if (!contentType || !contentType.includes("application/json")) {
+    if (response.status === 404) {
+      throw new Error("Parse endpoint not found. Is the dev server running?");
+    }
+    throw new Error(
+      `Server error (${response.status}). Check terminal for details.`
+    );
+  }
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw new Error(result.error || "Failed to parse file");
+  }
+  return result;
+}
+
+/**
+ * Poll a parse job until it finishes, reporting its queue position
+ * (0 once it is running)
+ */
+async function waitForJob(
+  jobId: string,
+  onPosition: (position: number) => void
+): Promise<GribDataset> {
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    const result = await readApiResponse(
+      await fetch(`/api/jobs/${jobId}`, {
+        headers: { Accept: DATASET_ACCEPT },
+      })
+    );
+    if (result.status === "done") return result.data as GribDataset;
+    onPosition(result.status === "queued" ? result.position : 0);
+  }
+}
+
+/**
+ * Read a server-sent event stream, passing each event's data to
+ * `onEvent` as it arrives, one event at a time
+ */
+async function readParseEvents(
+  response: Response,
+  onEvent: (event: ParseEvent) => void | Promise<void>
+): Promise<void> {
+  const reader = response
+    .body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffered += value;
+
+    // Events end with a blank line
+    let end;
+    while ((end = buffered.indexOf("\n\n")) !== -1) {
+      const data = buffered
+        .slice(0, end)
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      buffered = buffered.slice(end + 2);
+      if (data) await onEvent(JSON.parse(data));
+    }
+  }
+}
+
+/**
+ * Follow a streamed parse, publishing the dataset as its time steps
+ * arrive (see streamedDataset.ts). `onFirstStep` runs once there is a
+ * step to show; failures before then are thrown, later ones published.
+ */
+async function followParseStream(
+  response: Response,
+  onPosition: (position: number) => void,
+  onFirstStep: (streamId: string) => void
+): Promise<void> {
+  const id = crypto.randomUUID();
+  let streamed: StreamedDataset | null = null;
+  let shown = false;
+  let finished = false;
+
+  const fail = (error: string) => {
+    finished = true;
+    if (!streamed || !shown) throw new Error(error);
+    streamed = { ...streamed, complete: true, error };
+    publishStreamedDataset(streamed);
+  };
+
+  await readParseEvents(response, async (event) => {
+    switch (event.type) {
+      case "queued":
+        onPosition(event.position);
+        break;
+      case "inventory":
+        onPosition(0);
+        streamed = {
+          id,
+          dataset: emptyDataset(
+            event.refTime,
+            event.timeSteps,
+            event.skippedMessages
+          ),
+          loaded: event.timeSteps.map(() => false),
+          complete: false,
+          error: null,
+        };
+        break;
+      case "step": {
+        if (!streamed) break;
+        const fields =
+          "binary" in event
+            ? await decompressBinaryDataset<DatasetField[]>(
+                fromBase64(event.binary)
+              )
+            : event.fields;
+        streamed = {
+          ...streamed,
+          dataset: mergeDatasetStep(streamed.dataset, fields, event.index),
+          loaded: streamed.loaded.map(
+            (loaded, index) => loaded || index === event.index
+          ),
+        };
+        publishStreamedDataset(streamed);
+        if (!shown && streamed.dataset.fields.length > 0) {
+          shown = true;
+          onFirstStep(id);
+        }
+        break;
+      }
+      case "done":
+        if (!streamed || !shown) throw new Error("No fields found in file");
+        finished = true;
+        streamed = { ...streamed, complete: true };
+        publishStreamedDataset(streamed);
+        break;
+      case "error":
+        fail(event.error);
+        break;
+    }
+  });
+
+  if (!finished) fail("Lost connection to the server while parsing");
+}
+
 function FileZone() {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
+  // The chosen file and its messages, to pick what to decode from
+  const [inspected, setInspected] = useState<{
+    file: File;
+    inventory: GribInventory;
+  } | null>(null);
+  // Our parse job's place in the server queue (0 once it is running)
+  const [queuePosition, setQueuePosition] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
 
@@ -265,60 +470,85 @@ function FileZone() {
     setIsDragging(false);
   }, []);
 
-  const openFile = useCallback(
-    async (file: File) => {
-      const validExtensions = [".grb", ".grb2", ".grib", ".grib2"];
-      const hasValidExtension = validExtensions.some((ext) =>
-        file.name.toLowerCase().endsWith(ext)
+  const openFile = useCallback(async (file: File) => {
+    if (file.size > 50 * 1024 * 1024) {
+      setError("File is too large. Maximum size is 50MB.");
+      return;
+    }
+
+    // Judge files by their content, not their name
+    const head = new Uint8Array(
+      await file.slice(0, SNIFF_LENGTH).arrayBuffer()
+    );
+    if (!looksLikeGrib(head)) {
+      setError(
+        "This does not look like a GRIB file: no GRIB message found at its start"
       );
+      return;
+    }
 
-      if (!hasValidExtension) {
-        setError("Please select a GRIB file (.grb, .grb2, .grib, .grib2)");
-        return;
-      }
+    setIsInspecting(true);
+    setError(null);
 
-      if (file.size > 50 * 1024 * 1024) {
-        setError("File is too large. Maximum size is 50MB.");
-        return;
-      }
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const result = await readApiResponse(
+        await fetch("/api/inspect", { method: "POST", body: formData })
+      );
+      setInspected({ file, inventory: result.data as GribInventory });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    } finally {
+      setIsInspecting(false);
+    }
+  }, []);
 
+  const parseFile = useCallback(
+    async (file: File, selection: InventorySelection) => {
+      setInspected(null);
       setIsParsing(true);
+      setQueuePosition(0);
       setError(null);
 
       try {
         const formData = new FormData();
         formData.append("file", file);
+        for (const [name, values] of Object.entries(selection)) {
+          if (values) formData.append(name, values.join(","));
+        }
 
         const response = await fetch("/api/parse", {
           method: "POST",
           body: formData,
           headers: {
-            Accept: "application/json",
+            Accept: `text/event-stream, ${DATASET_ACCEPT}`,
           },
         });
 
-        // Check if response is JSON before parsing
-        const contentType = response.headers.get("content-type");
-        if (!contentType || !contentType.includes("application/json")) {
-          if (response.status === 404) {
-            throw new Error(
-              "Parse endpoint not found. Is the dev server running?"
-            );
-          }
-          throw new Error(
-            `Server error (${response.status}). Check terminal for details.`
+        // New files stream in; open the viewer on their first time step
+        if (response.headers.get("content-type")?.includes("event-stream")) {
+          await followParseStream(response, setQueuePosition, (streamId) =>
+            navigate("/viewer", { state: { streamId } })
           );
+          return;
         }
 
-        const result = await response.json();
+        const result = await readApiResponse(response);
 
-        if (!response.ok || result.error) {
-          throw new Error(result.error || "Failed to parse file");
+        // Files parsed before come straight back; others are queued
+        let dataset: GribDataset;
+        if (response.status === 202) {
+          setQueuePosition(result.position);
+          dataset = await waitForJob(result.jobId, setQueuePosition);
+        } else {
+          dataset = result.data as GribDataset;
         }
 
         // Navigate to viewer with the parsed data
         navigate("/viewer", {
-          state: { windData: result.data as MultiTimeVelocityData },
+          state: { dataset },
         });
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to parse file");
@@ -329,6 +559,48 @@ function FileZone() {
     [navigate]
   );
 
+  const downloadSubset = useCallback(
+    async (
+      file: File,
+      selection: InventorySelection,
+      subset: SubsetRequest
+    ): Promise<SubsetSizes> => {
+      const formData = new FormData();
+      formData.append("file", file);
+      for (const [name, values] of Object.entries(selection)) {
+        if (values) formData.append(name, values.join(","));
+      }
+      if (subset.region) formData.append("bbox", subset.region);
+      if (subset.targetResolution) {
+        formData.append("targetResolution", String(subset.targetResolution));
+      }
+
+      const response = await fetch("/api/subset", {
+        method: "POST",
+        body: formData,
+      });
+      // Failures come back as JSON errors
+      if (!response.ok) await readApiResponse(response);
+
+      const filename =
+        response.headers
+          .get("content-disposition")
+          ?.match(/filename="([^"]+)"/)?.[1] ?? "subset.grb2";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      return {
+        originalSize: Number(response.headers.get("x-original-size")),
+        subsetSize: Number(response.headers.get("x-subset-size")),
+      };
+    },
+    []
+  );
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -350,10 +622,28 @@ function FileZone() {
       if (files && files.length > 0) {
         openFile(files[0]);
       }
+      // So the same file can be picked again after going back
+      e.target.value = "";
     },
     [openFile]
   );
 
+  if (inspected) {
+    return (
+      <InventoryPicker
+        fileName={inspected.file.name}
+        inventory={inspected.inventory}
+        onSubmit={(selection) => parseFile(inspected.file, selection)}
+        onCancel={() => setInspected(null)}
+        onDownloadSubset={(selection, subset) =>
+          downloadSubset(inspected.file, selection, subset)
+        }
+      />
+    );
+  }
+
+  const isBusy = isInspecting || isParsing;
+
   return (
     <label
       htmlFor="grib-file-input"
@@ -369,24 +659,29 @@ function FileZone() {
             ? "border-cyan-400 bg-cyan-500/10 scale-[1.01]"
             : "border-slate-600 hover:border-slate-500 hover:bg-slate-800/30"
         }
-        ${isParsing ? "pointer-events-none opacity-60 cursor-not-allowed" : ""}
+        ${isBusy ? "pointer-events-none opacity-60 cursor-not-allowed" : ""}
       `}
     >
       <input
         id="grib-file-input"
         ref={fileInputRef}
         type="file"
-        accept=".grb,.grb2,.grib,.grib2"
         onChange={handleFileSelect}
         className="sr-only"
-        disabled={isParsing}
+        disabled={isBusy}
         aria-describedby="file-upload-description"
       />
 
-      {isParsing ? (
+      {isBusy ? (
         <div className="flex flex-col items-center gap-4">
           <div className="w-12 h-12 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin" />
-          <p className="text-lg text-slate-300">Parsing GRIB file...</p>
+          <p className="text-lg text-slate-300">
+            {isInspecting
+              ? "Reading GRIB inventory..."
+              : queuePosition > 0
+                ? `Waiting in queue (position ${queuePosition})...`
+                : "Parsing GRIB file..."}
+          </p>
         </div>
       ) : (
         <>
@@ -403,7 +698,7 @@ function FileZone() {
               : "Drag & drop a GRIB file"}
           </p>
           <p id="file-upload-description" className="text-sm text-slate-500">
-            or click to browse • .grb, .grb2, .grib, .grib2 • Max 50MB
+            or click to browse • Any file name, checked by content • Max 50MB
           </p>
         </>
       )}
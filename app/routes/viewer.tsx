@@ -1,14 +1,120 @@
-import { Suspense, lazy, useState, useCallback } from "react";
+import {
+  Suspense,
+  lazy,
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
 import { Link, useLocation, useNavigate } from "react-router";
 import type { Route } from "./+types/viewer";
 import { TimeSlider } from "../components/TimeSlider";
-import type { MultiTimeVelocityData, VelocityData } from "../.server/parser";
+import { FieldPicker, formatFieldLabel } from "../components/FieldPicker";
+import { LevelPicker } from "../components/LevelPicker";
+import { MemberPicker } from "../components/MemberPicker";
+import { ScalarLegend } from "../components/ScalarLegend";
+import { IsobarControls } from "../components/IsobarControls";
+import { FileInfoPanel } from "../components/FileInfoPanel";
+import { ExportMenu } from "../components/ExportMenu";
+import { LayerToggle } from "../components/LayerToggle";
+import { SCALAR_COLOR_SCALE, WAVE_COLOR_SCALE } from "../lib/colors";
+import type { LengthUnit } from "../lib/units";
+import { formatForecastHour } from "../lib/time";
+import {
+  getStreamedDataset,
+  subscribeStreamedDataset,
+} from "../lib/streamedDataset";
+import {
+  PRESET_REGIONS,
+  normalizeLongitude,
+  regionCenter,
+  type Region,
+} from "../lib/regions";
+import type {
+  DatasetField,
+  GribDataset,
+  ScalarField,
+  VectorField,
+  VelocityComponent,
+  VelocityData,
+} from "../.server/parser";
 
 // Lazy load the map component to ensure it only runs on the client
 const WindMap = lazy(() =>
   import("../components/WindMap.client").then((m) => ({ default: m.WindMap }))
 );
 
+/**
+ * Value range of a scalar field across all time steps, so colours stay
+ * comparable while stepping through time
+ */
+function scalarRange(field: DatasetField | undefined): [number, number] | null {
+  if (!field || field.kind !== "scalar") return null;
+  // Probabilities always span 0-100%
+  if (field.units === "%") return [0, 100];
+  let min = Infinity;
+  let max = -Infinity;
+  // Across all ensemble members, so colours stay put while stepping
+  // through them
+  const steps = field.members?.flatMap((m) => m.steps) ?? field.steps;
+  for (const step of steps) {
+    if (!step) continue;
+    for (const value of step.data) {
+      if (typeof value !== "number" || Number.isNaN(value)) continue;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+  }
+  return min <= max ? [min, max] : null;
+}
+
+/**
+ * Steps of a field for an ensemble member, or the field's own steps when
+ * it has no such member
+ */
+function memberSteps<F extends DatasetField>(
+  field: F,
+  member: number | null
+): F["steps"] {
+  const match = field.members?.find((m) => m.perturbationNumber === member);
+  return (match?.steps ?? field.steps) as F["steps"];
+}
+
+/**
+ * Mean sea level pressure field, if the dataset has one
+ */
+function findPressureField(
+  dataset: GribDataset | undefined
+): ScalarField | undefined {
+  return dataset?.fields.find(
+    (f): f is ScalarField =>
+      f.kind === "scalar" && (f.parameter === "prmsl" || f.parameter === "msl")
+  );
+}
+
+/**
+ * Ocean surface current field, if the dataset has one
+ */
+function findOceanCurrentField(
+  dataset: GribDataset | undefined
+): VectorField | undefined {
+  return dataset?.fields.find(
+    (f): f is VectorField => f.kind === "vector" && f.parameter === "current"
+  );
+}
+
+// Wave heights get their own colour scale
+const WAVE_HEIGHT_PARAMETERS = new Set(["swh", "shww", "shts"]);
+
+/**
+ * Longitude as degrees east or west, wrapped to -180..180
+ */
+function formatLongitude(lon: number): string {
+  const wrapped = normalizeLongitude(lon);
+  return `${Math.abs(wrapped).toFixed(1)}°${wrapped < 0 ? "W" : "E"}`;
+}
+
 /**
  * Parse forecast time string to displayable format
  */
@@ -25,31 +131,79 @@ function formatForecastTime(timeStr: string): string {
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: "Wind Viewer - Marine GRIB Viewer" },
-    { name: "description", content: "Visualize wind data from GRIB files" },
+    { title: "GRIB Viewer - Marine GRIB Viewer" },
+    {
+      name: "description",
+      content: "Visualize wind, pressure and other fields from GRIB files",
+    },
   ];
 }
 
 interface LocationState {
-  windData?: MultiTimeVelocityData;
+  dataset?: GribDataset;
+  // Upload whose dataset is still streaming in (see streamedDataset.ts)
+  streamId?: string;
 }
 
 export default function Viewer() {
   const location = useLocation();
   const navigate = useNavigate();
   const state = location.state as LocationState | null;
-  const multiTimeData = state?.windData;
+  const streamed = useSyncExternalStore(
+    subscribeStreamedDataset,
+    getStreamedDataset,
+    () => null
+  );
+  const live =
+    state?.streamId && streamed?.id === state.streamId ? streamed : null;
+  const dataset = live?.dataset ?? state?.dataset;
+  // Whether each time step has arrived, while the dataset streams in
+  const loadedSteps = live && !live.complete ? live.loaded : undefined;
+
+  // Once every step is in, keep the dataset in history like any other
+  useEffect(() => {
+    if (live?.complete && !live.error) {
+      navigate(".", { replace: true, state: { dataset: live.dataset } });
+    }
+  }, [live, navigate]);
 
   const [currentTimeIndex, setCurrentTimeIndex] = useState(0);
+  const [selectedFieldId, setSelectedFieldId] = useState(
+    dataset?.fields[0]?.id ?? ""
+  );
+
+  const selectedField =
+    dataset?.fields.find((f) => f.id === selectedFieldId) ?? dataset?.fields[0];
+  const selectedRange = useMemo(
+    () => scalarRange(selectedField),
+    [selectedField]
+  );
+
+  // Isobar overlay, drawn over whichever field is selected
+  const pressureField = findPressureField(dataset);
+  const [showIsobars, setShowIsobars] = useState(true);
+  const [isobarInterval, setIsobarInterval] = useState(4);
+
+  // Current overlay, toggled independently of the selected field
+  const oceanCurrentField = findOceanCurrentField(dataset);
+  const [showCurrents, setShowCurrents] = useState(true);
+
+  const [showFileInfo, setShowFileInfo] = useState(false);
+
+  // Ensemble member shown for fields with members; null for the first
+  const [selectedMember, setSelectedMember] = useState<number | null>(null);
+
+  // Wave heights in metres or feet
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>("m");
 
   // If no data, redirect to home
-  if (!multiTimeData) {
+  if (!dataset || !selectedField) {
     return (
       <div className="h-screen w-screen flex items-center justify-center bg-slate-900">
         <div className="text-center">
           <h1 className="text-2xl font-bold text-white mb-4">No GRIB Data</h1>
           <p className="text-slate-400 mb-6">
-            Open a GRIB file to view wind visualization.
+            Open a GRIB file to view the forecast.
           </p>
           <Link
             to="/"
@@ -75,32 +229,59 @@ export default function Viewer() {
     );
   }
 
-  const hasMultipleTimeSteps = multiTimeData.timeSteps.length > 1;
-
-  // Get current time step's velocity data
-  const currentTimeStep = multiTimeData.timeSteps[currentTimeIndex];
-  const currentVelocityData: VelocityData | null =
-    currentTimeStep?.data ?? null;
-
-  // Get region from velocity data header
-  let regionNorth: number | null = null;
-  let regionSouth: number | null = null;
-  let regionEast: number | null = null;
-  let regionWest: number | null = null;
-
-  if (currentVelocityData && currentVelocityData[0]?.header) {
-    const header = currentVelocityData[0].header;
-    regionNorth = header.la1;
-    regionSouth = header.la2;
-    regionEast = header.lo2;
-    regionWest = header.lo1;
-  }
+  const hasMultipleTimeSteps = dataset.timeSteps.length > 1;
 
-  // Calculate map center from region
-  const centerLat = ((regionNorth ?? 40) + (regionSouth ?? 30)) / 2;
-  const centerLon = ((regionEast ?? -10) + (regionWest ?? -80)) / 2;
+  // Get current time step's data for the selected field
+  const currentTimeStep = dataset.timeSteps[currentTimeIndex];
+  const currentVectorData: VelocityData | null =
+    selectedField.kind === "vector"
+      ? (memberSteps(selectedField, selectedMember)[currentTimeIndex] ?? null)
+      : null;
+  const currentScalarData: VelocityComponent | null =
+    selectedField.kind === "scalar"
+      ? (memberSteps(selectedField, selectedMember)[currentTimeIndex] ?? null)
+      : null;
+  const currentHeader =
+    currentVectorData?.[0]?.header ?? currentScalarData?.header;
+  const directionField =
+    selectedField.kind === "scalar" && selectedField.directionFieldId
+      ? dataset.fields.find((f) => f.id === selectedField.directionFieldId)
+      : undefined;
+  const currentDirectionData =
+    directionField?.kind === "scalar"
+      ? (memberSteps(directionField, selectedMember)[currentTimeIndex] ?? null)
+      : null;
+  const scalarColorScale = WAVE_HEIGHT_PARAMETERS.has(selectedField.parameter)
+    ? WAVE_COLOR_SCALE
+    : SCALAR_COLOR_SCALE;
+  // The selected field already draws currents when it is the current field
+  const oceanCurrentData =
+    showCurrents &&
+    oceanCurrentField &&
+    oceanCurrentField.id !== selectedField.id
+      ? (memberSteps(oceanCurrentField, selectedMember)[currentTimeIndex] ??
+        null)
+      : null;
+  const currentPressureData =
+    showIsobars && pressureField
+      ? (memberSteps(pressureField, selectedMember)[currentTimeIndex] ?? null)
+      : null;
 
-  const hasRegion = regionNorth !== null && regionSouth !== null;
+  // Get region from the field's grid header. lo2 continues east of lo1,
+  // so regions crossing the antimeridian keep west > east once wrapped.
+  const region: Region | null = currentHeader
+    ? {
+        north: currentHeader.la1,
+        south: currentHeader.la2,
+        west: currentHeader.lo1,
+        east: currentHeader.lo2,
+      }
+    : null;
+
+  // Calculate map center from region
+  const [centerLat, centerLon] = regionCenter(
+    region ?? PRESET_REGIONS["North Atlantic"]
+  );
 
   // Handle time change from slider
   const handleTimeChange = useCallback((index: number) => {
@@ -110,8 +291,8 @@ export default function Viewer() {
   // Display time
   const displayTime = currentTimeStep?.validTime
     ? formatForecastTime(currentTimeStep.validTime)
-    : multiTimeData.refTime
-      ? formatForecastTime(multiTimeData.refTime)
+    : dataset.refTime
+      ? formatForecastTime(dataset.refTime)
       : "Unknown time";
 
   return (
@@ -126,57 +307,163 @@ export default function Viewer() {
             >
               ← View Another
             </Link>
-            <h1 className="text-white text-xl font-bold">GRIB Viewer</h1>
+            <div className="flex items-center gap-3">
+              <h1 className="text-white text-xl font-bold">GRIB Viewer</h1>
+              <button
+                onClick={() => setShowFileInfo((prev) => !prev)}
+                aria-pressed={showFileInfo}
+                className="text-slate-400 hover:text-white text-xs border border-slate-600 rounded px-2 py-0.5"
+              >
+                File info
+                {dataset.skippedMessages && (
+                  <span
+                    className="ml-1 text-amber-400"
+                    title="Messages skipped while reading the file"
+                  >
+                    ({dataset.skippedMessages.length} skipped)
+                  </span>
+                )}
+              </button>
+              <ExportMenu
+                dataset={dataset}
+                field={selectedField}
+                member={selectedMember}
+                timeIndex={currentTimeIndex}
+              />
+            </div>
             <p className="text-slate-400 text-sm">
               {displayTime}
+              {currentTimeStep && (
+                <span className="ml-2 text-slate-500">
+                  {formatForecastHour(currentTimeStep.forecastHour)}
+                </span>
+              )}
               {hasMultipleTimeSteps && (
                 <span className="ml-2 text-cyan-400">
-                  ({multiTimeData.timeSteps.length} time steps)
+                  ({dataset.timeSteps.length} time steps)
                 </span>
               )}
             </p>
           </div>
-          {hasRegion && (
-            <div className="text-right text-sm">
-              <p className="text-slate-300">
-                Region: {regionSouth?.toFixed(1)}°N to {regionNorth?.toFixed(1)}
-                °N
-              </p>
-              <p className="text-slate-400">
-                {Math.abs(regionWest ?? 0).toFixed(1)}°
-                {(regionWest ?? 0) < 0 ? "W" : "E"} to{" "}
-                {Math.abs(regionEast ?? 0).toFixed(1)}°
-                {(regionEast ?? 0) < 0 ? "W" : "E"}
-              </p>
+          <div className="flex items-center gap-6">
+            {oceanCurrentField && oceanCurrentField.id !== selectedField.id && (
+              <LayerToggle
+                label="Currents"
+                enabled={showCurrents}
+                onToggle={() => setShowCurrents((prev) => !prev)}
+              />
+            )}
+            {pressureField && (
+              <IsobarControls
+                enabled={showIsobars}
+                onToggle={() => setShowIsobars((prev) => !prev)}
+                interval={isobarInterval}
+                onIntervalChange={setIsobarInterval}
+              />
+            )}
+            <div className="flex items-center gap-2">
+              <FieldPicker
+                fields={dataset.fields}
+                selectedId={selectedField.id}
+                onChange={setSelectedFieldId}
+              />
+              <LevelPicker
+                fields={dataset.fields}
+                selectedId={selectedField.id}
+                onChange={setSelectedFieldId}
+              />
+              <MemberPicker
+                field={selectedField}
+                selected={selectedMember}
+                onChange={setSelectedMember}
+              />
             </div>
-          )}
+            {region && (
+              <div className="text-right text-sm">
+                <p className="text-slate-300">
+                  Region: {region.south.toFixed(1)}°N to{" "}
+                  {region.north.toFixed(1)}
+                  °N
+                </p>
+                <p className="text-slate-400">
+                  {formatLongitude(region.west)} to{" "}
+                  {formatLongitude(region.east)}
+                </p>
+              </div>
+            )}
+          </div>
         </div>
       </header>
 
-      {/* Map with velocity layer */}
-      {currentVelocityData && (
-        <Suspense
-          fallback={
-            <div className="h-full w-full flex items-center justify-center bg-slate-900">
-              <div className="text-white">Loading map...</div>
-            </div>
-          }
+      {/* Map with the selected field's layer */}
+      <Suspense
+        fallback={
+          <div className="h-full w-full flex items-center justify-center bg-slate-900">
+            <div className="text-white">Loading map...</div>
+          </div>
+        }
+      >
+        <WindMap
+          vectorData={currentVectorData}
+          vectorIsCurrent={selectedField.parameter === "current"}
+          oceanCurrentData={oceanCurrentData}
+          scalarData={currentScalarData}
+          scalarRange={selectedRange ?? undefined}
+          scalarColorScale={scalarColorScale}
+          scalarLabel={formatFieldLabel(selectedField)}
+          lengthUnit={lengthUnit}
+          directionData={currentDirectionData}
+          isobarData={currentPressureData}
+          isobarInterval={isobarInterval}
+          center={[centerLat, centerLon]}
+          zoom={5}
+        />
+      </Suspense>
+
+      {/* No data for this field at the current step (yet) */}
+      {!currentVectorData && !currentScalarData && (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-1000 bg-slate-900/90 rounded-lg px-4 py-2 text-slate-300 text-sm">
+          {loadedSteps && !loadedSteps[currentTimeIndex]
+            ? "Loading this time step..."
+            : `No ${formatFieldLabel(selectedField)} data at this time step`}
+        </div>
+      )}
+
+      {live?.error && (
+        <div
+          className="absolute top-28 left-1/2 -translate-x-1/2 z-1000 p-3 bg-red-500/10 border border-red-500/20 rounded-lg"
+          role="alert"
         >
-          <WindMap
-            windData={currentVelocityData}
-            center={[centerLat, centerLon]}
-            zoom={5}
-          />
-        </Suspense>
+          <p className="text-red-400 text-sm">
+            Some time steps could not be loaded: {live.error}
+          </p>
+        </div>
+      )}
+
+      {showFileInfo && (
+        <FileInfoPanel
+          dataset={dataset}
+          onClose={() => setShowFileInfo(false)}
+        />
+      )}
+
+      {/* Colour legend for scalar fields */}
+      {currentScalarData && selectedRange && (
+        <ScalarLegend
+          title={formatFieldLabel(selectedField)}
+          units={selectedField.units}
+          range={selectedRange}
+          colorScale={scalarColorScale}
+          lengthUnit={lengthUnit}
+          onLengthUnitChange={setLengthUnit}
+        />
       )}
 
       {/* Time slider for multi-time-step GRIBs */}
       {hasMultipleTimeSteps && (
         <TimeSlider
-          timeSteps={multiTimeData.timeSteps.map((ts) => ({
-            forecastHour: ts.forecastHour,
-            validTime: ts.validTime,
-          }))}
+          timeSteps={dataset.timeSteps}
+          loadedSteps={loadedSteps}
           currentIndex={currentTimeIndex}
           onTimeChange={handleTimeChange}
         />
@@ -0,0 +1,101 @@
+/**
+ * Parse Benchmark
+ *
+ * Times parseGribToDataset on the sample files in data/gribs against
+ * the parser of a baseline commit, by default the last one before
+ * messages were decoded in one binary pass (one grib_get_data process
+ * per message, parsed from text, when eccodes is installed), and prints
+ * the speedup. Both run with eccodes when installed and the built-in
+ * decoders otherwise.
+ *
+ * Usage: bun run bench [runs] [baseline-ref]
+ */
+
+import { mkdtempSync, readdirSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkEccodes, parseGribToDataset } from "../app/.server/parser";
+
+const ROOT = join(import.meta.dir, "..");
+const GRIB_DIR = join(ROOT, "data", "gribs");
+// Parent of "Decode message values in one binary pass into typed arrays"
+const DEFAULT_BASELINE = "0981c36";
+
+const runs = Math.max(1, Number(process.argv[2]) || 5);
+const baselineRef = process.argv[3] ?? DEFAULT_BASELINE;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+async function time(task: () => Promise<unknown>): Promise<number> {
+  const times: number[] = [];
+  for (let run = 0; run < runs; run++) {
+    const start = performance.now();
+    await task();
+    times.push(performance.now() - start);
+  }
+  return median(times);
+}
+
+/**
+ * The baseline commit's app/ directory, unpacked into a temporary
+ * directory so its parser can be imported next to the current one
+ */
+async function checkoutBaseline(ref: string): Promise<string> {
+  const dir = mkdtempSync(join(tmpdir(), "bench-baseline-"));
+  const archive = Bun.spawn(["git", "archive", ref, "app"], {
+    cwd: ROOT,
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const tar = Bun.spawn(["tar", "-x", "-C", dir], {
+    stdin: archive.stdout,
+    stderr: "pipe",
+  });
+  if ((await archive.exited) !== 0 || (await tar.exited) !== 0) {
+    rmSync(dir, { recursive: true, force: true });
+    const stderr = await new Response(archive.stderr).text();
+    throw new Error(`Could not check out baseline ${ref}: ${stderr.trim()}`);
+  }
+  return dir;
+}
+
+const files = readdirSync(GRIB_DIR)
+  .filter((name) => /\.(grb2?|grib2?)$/i.test(name))
+  .sort();
+
+if (files.length === 0) {
+  console.log(`No GRIB files in ${GRIB_DIR}`);
+  process.exit(0);
+}
+
+const baselineDir = await checkoutBaseline(baselineRef);
+try {
+  const baseline: {
+    parseGribToDataset: (path: string) => Promise<unknown>;
+  } = await import(join(baselineDir, "app", ".server", "parser.ts"));
+
+  const hasEccodes = await checkEccodes();
+  console.log(
+    `Median of ${runs} runs per file, ${hasEccodes ? "eccodes" : "built-in decoders"}, against ${baselineRef}`
+  );
+
+  for (const name of files) {
+    const path = join(GRIB_DIR, name);
+    const sizeKb = (statSync(path).size / 1024).toFixed(0);
+    const before = await time(() => baseline.parseGribToDataset(path));
+    const current = await time(() => parseGribToDataset(path));
+    console.log(
+      `${name} (${sizeKb} KB): ${current.toFixed(1)} ms, baseline ${before.toFixed(1)} ms, ${(
+        before / current
+      ).toFixed(1)}× faster`
+    );
+  }
+} finally {
+  rmSync(baselineDir, { recursive: true, force: true });
+}